@@ -1,13 +1,31 @@
-import { streamText, type CoreMessage, type LanguageModel } from "ai";
+import {
+  streamText,
+  type CoreMessage,
+  type CoreTool,
+  type LanguageModel,
+  type LanguageModelV1CallOptions,
+} from "ai";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenAI } from "@ai-sdk/openai";
 import chalk from "chalk";
 import { getTools } from "./tools/index.js";
 import { loadAuth } from "./auth.js";
-import { getProviderId, type ToolContext } from "./types.js";
-import { ContextManager } from "./context.js";
+import type { ToolContext, AgentState, TaskUsage } from "./types.js";
+import { getProviderId, getCustomModel, getModelInfo, resolveModelAlias } from "./models.js";
+import { ContextManager, type ContextStats } from "./context.js";
 import { formatTokens } from "./util/token.js";
+import { getConfig } from "./config.js";
+import { runHooks } from "./hooks.js";
+import { expandEnv, expandEnvRecord } from "./util/env.js";
+import {
+  recordCost,
+  withBudget,
+  formatCost,
+  formatBudgetWarning,
+  getPromptTokens,
+} from "./cost.js";
+import { withFallback, type RetryNotice, type FallbackNotice } from "./retry.js";
 
 // Provider registry - lazily initialized with API keys
 const providers = {
@@ -16,9 +34,18 @@ const providers = {
   openai: (apiKey: string) => createOpenAI({ apiKey }),
 };
 
+// Extra instructions while in plan mode
+const PLAN_MODE_PROMPT = `
+
+PLAN MODE is active. You are planning, not implementing:
+- Explore the codebase with read, glob, grep and read-only bash commands
+- Do not create, modify or delete files; write, edit and mutating commands are unavailable
+- When you understand the task, call exit_plan with a concrete, step-by-step plan
+- If the user rejects the plan, revise it based on their feedback and call exit_plan again`;
+
 // System prompt template
-function buildSystemPrompt(workingDir: string): string {
-  return `You are a helpful coding assistant with access to tools for file operations and command execution.
+function buildSystemPrompt(workingDir: string, planMode = false, instructions = ""): string {
+  const prompt = `You are a helpful coding assistant with access to tools for file operations and command execution.
 
 Environment:
 - Working directory: ${workingDir}
@@ -39,12 +66,32 @@ Available tools:
 - bash: Execute shell commands
 - write: Create or overwrite files
 - edit: Find and replace text in files
+- multi_edit: Apply several find-and-replace edits to one file atomically
+- apply_patch: Apply a unified diff that changes, creates, deletes or renames several files at once
+- todo_write / todo_read: Keep a todo list for multi-step work (the user sees it)
+- task: Delegate a self-contained search or research task to a sub-agent (several run in parallel)
 
 When editing files, make sure to match the exact text including whitespace and indentation.`;
+
+  return prompt + instructions + (planMode ? PLAN_MODE_PROMPT : "");
 }
 
 // Get the language model for a given model ID
 export async function getModel(modelId: string): Promise<LanguageModel> {
+  // OpenAI-compatible servers from the "providers" config
+  const custom = getCustomModel(modelId);
+  if (custom) {
+    const { providerId, provider, model } = custom;
+    return createOpenAI({
+      name: providerId,
+      baseURL: expandEnv(provider.baseURL),
+      // Local servers need no key, but the client insists on one
+      apiKey: provider.apiKey ? expandEnv(provider.apiKey) : "none",
+      headers: expandEnvRecord(provider.headers),
+      compatibility: "compatible",
+    }).chat(model);
+  }
+
   const auth = await loadAuth();
   const providerId = getProviderId(modelId);
 
@@ -75,6 +122,242 @@ export async function getModel(modelId: string): Promise<LanguageModel> {
   }
 }
 
+// Request settings after adapting them to the model
+export interface ModelRequest {
+  system?: string;
+  messages: CoreMessage[];
+  tools?: Record<string, CoreTool>;
+  maxTokens: number;
+  temperature?: number;
+  // What had to be left out, to tell the user
+  notes: string[];
+}
+
+// Marks a prompt prefix for Anthropic's prompt cache
+const CACHE_CONTROL = { anthropic: { cacheControl: { type: "ephemeral" } } };
+
+const SYSTEM_PROMPT_ACK = "Understood. I will follow these instructions.";
+
+// Text that replaces an image or file for models that cannot read them
+function omittedText(type: string): string {
+  return `[${type} omitted: the model does not accept ${type}s]`;
+}
+
+function omitAttachments(message: CoreMessage): CoreMessage {
+  if (message.role !== "user" || typeof message.content === "string") return message;
+  return {
+    ...message,
+    content: message.content.map((part) =>
+      part.type === "text" ? part : { type: "text" as const, text: omittedText(part.type) }
+    ),
+  };
+}
+
+/**
+ * Shape a request to what the model accepts (from the model registry): leave
+ * out tools, images and temperature it does not support, send the system
+ * prompt as a message if needed and mark cache breakpoints. The conversation
+ * itself is not modified.
+ */
+export function buildModelRequest(
+  modelId: string,
+  request: {
+    system: string;
+    messages: CoreMessage[];
+    tools: Record<string, CoreTool>;
+    maxTokens: number;
+  }
+): ModelRequest {
+  const { capabilities, output, provider } = getModelInfo(modelId);
+  const temperature = getConfig().temperature;
+  const notes: string[] = [];
+
+  let messages = request.messages;
+  if (!capabilities.images && messages.some((m) => omitAttachments(m) !== m)) {
+    messages = messages.map(omitAttachments);
+    notes.push("images and files are left out");
+  }
+
+  let tools: Record<string, CoreTool> | undefined = request.tools;
+  if (!capabilities.tools && Object.keys(tools).length > 0) {
+    tools = undefined;
+    notes.push("tools are disabled");
+  }
+
+  if (temperature !== undefined && !capabilities.temperature) {
+    notes.push("temperature is ignored");
+  }
+
+  let system: string | undefined = request.system;
+  if (!capabilities.systemPrompt) {
+    // Prepended to the conversation as the first exchange instead
+    messages = [
+      { role: "user", content: system },
+      { role: "assistant", content: SYSTEM_PROMPT_ACK },
+      ...messages,
+    ];
+    system = undefined;
+  } else if (capabilities.promptCaching && provider === "anthropic") {
+    // Cache the system prompt (with the tools before it) and the conversation so far
+    messages = [
+      { role: "system", content: system, providerOptions: CACHE_CONTROL },
+      ...messages.slice(0, -1),
+      ...messages.slice(-1).map((m) => ({ ...m, providerOptions: CACHE_CONTROL }) as CoreMessage),
+    ];
+    system = undefined;
+  }
+
+  return {
+    system,
+    messages,
+    tools,
+    maxTokens: Math.min(request.maxTokens, output),
+    temperature: capabilities.temperature ? temperature : undefined,
+    notes,
+  };
+}
+
+/**
+ * Shape a request that was built for another model to what a fallback model
+ * accepts, as buildModelRequest does: leave out images and temperature it
+ * does not support, send the system prompt as a message if needed and cap
+ * the output. (Models without tool support are not used as fallbacks.)
+ */
+export function adaptCallOptions(
+  params: LanguageModelV1CallOptions,
+  modelId: string
+): LanguageModelV1CallOptions {
+  const { capabilities, output } = getModelInfo(modelId);
+
+  let prompt = params.prompt;
+  if (!capabilities.images) {
+    prompt = prompt.map((message) =>
+      message.role !== "user"
+        ? message
+        : {
+            ...message,
+            content: message.content.map((part) =>
+              part.type === "text" ? part : { type: "text" as const, text: omittedText(part.type) }
+            ),
+          }
+    );
+  }
+
+  if (!capabilities.systemPrompt) {
+    prompt = prompt.flatMap((message) =>
+      message.role !== "system"
+        ? [message]
+        : [
+            { role: "user" as const, content: [{ type: "text" as const, text: message.content }] },
+            {
+              role: "assistant" as const,
+              content: [{ type: "text" as const, text: SYSTEM_PROMPT_ACK }],
+            },
+          ]
+    );
+  }
+
+  return {
+    ...params,
+    prompt,
+    maxTokens: params.maxTokens !== undefined ? Math.min(params.maxTokens, output) : undefined,
+    temperature: capabilities.temperature
+      ? (params.temperature ?? getConfig().temperature)
+      : undefined,
+  };
+}
+
+// A tool call and its result, as recorded for a turn
+export interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+  result: unknown;
+}
+
+// Events emitted while a turn is running (used by headless stream-json output)
+export type AgentEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; toolCallId: string; toolName: string; args: unknown }
+  | { type: "tool_result"; toolCallId: string; toolName: string; result: unknown }
+  | { type: "step_finish"; usage: { promptTokens: number; completionTokens: number } }
+  | { type: "retry"; modelId: string; attempt: number; delayMs: number; reason: string }
+  | { type: "model_switch"; from: string; to: string; reason: string };
+
+// Result of a single agent turn
+export interface AgentResult {
+  text: string;
+  toolCalls: ToolCallRecord[];
+  usage?: { promptTokens: number; completionTokens: number };
+  stats: ContextStats;
+  // Usage of sub-agents started by the task tool (not included in usage)
+  taskUsage?: TaskUsage;
+  // Spending of this turn in USD, including sub-agents and compaction
+  cost?: number;
+  error?: string;
+  // True if the user approved a plan during this turn (plan mode ended)
+  planApproved?: boolean;
+  // Set when a Stop hook blocked the end of the turn: the message to continue with
+  continueWith?: string;
+  // Set when a fallback model took over because the requested one was unavailable
+  fallbackModel?: string;
+  // True if the turn was cancelled through the abort signal
+  interrupted?: boolean;
+}
+
+// Marks where the user interrupted a turn, for the model and the user
+const INTERRUPTED_MARKER = "[Interrupted by user]";
+
+// What the step that was running when the turn got interrupted produced so far
+interface PartialStep {
+  text: string;
+  toolCalls: Array<{ toolCallId: string; toolName: string; args: unknown }>;
+  results: Map<string, unknown>;
+}
+
+// Messages that keep the output of an interrupted step. Tool calls that did
+// not finish get the marker as their result, so every call has a result.
+function buildInterruptedMessages(step: PartialStep): CoreMessage[] {
+  if (step.toolCalls.length === 0) {
+    const text = step.text ? `${step.text}\n\n${INTERRUPTED_MARKER}` : INTERRUPTED_MARKER;
+    return [{ role: "assistant", content: text }];
+  }
+
+  return [
+    {
+      role: "assistant",
+      content: [
+        ...(step.text ? [{ type: "text" as const, text: step.text }] : []),
+        ...step.toolCalls.map((call) => ({ type: "tool-call" as const, ...call })),
+      ],
+    },
+    {
+      role: "tool",
+      content: step.toolCalls.map(({ toolCallId, toolName }) => ({
+        type: "tool-result" as const,
+        toolCallId,
+        toolName,
+        result: step.results.has(toolCallId) ? step.results.get(toolCallId) : INTERRUPTED_MARKER,
+      })),
+    },
+    { role: "assistant", content: INTERRUPTED_MARKER },
+  ];
+}
+
+// "⚠ claude-sonnet-4-20250514: Overloaded (529). Retrying in 2.1s (1/3)"
+export function formatRetryNotice(notice: RetryNotice): string {
+  return (
+    `⚠ ${notice.modelId}: ${notice.reason}. ` +
+    `Retrying in ${(notice.delayMs / 1000).toFixed(1)}s (${notice.attempt}/${notice.maxRetries})`
+  );
+}
+
+// "⚠ claude-sonnet-4-20250514 is unavailable (Overloaded (529)). Switching to gpt-4o"
+export function formatFallbackNotice(notice: FallbackNotice): string {
+  const skipped = notice.skipped.length > 0 ? ` (skipped ${notice.skipped.join(", ")})` : "";
+  return `⚠ ${notice.from} is unavailable (${notice.reason}). Switching to ${notice.to}${skipped}`;
+}
+
 // Main agent entry point - unified for all providers
 export async function runAgent(
   userMessage: string,
@@ -83,105 +366,279 @@ export async function runAgent(
     workingDir: string;
     model?: string;
     maxTokens?: number;
+    // Suppress all console output (headless mode)
+    quiet?: boolean;
+    onEvent?: (event: AgentEvent) => void;
+    // Session state shared with tools (plan mode, etc.)
+    state?: AgentState;
+    // Only offer these tools to the model (custom commands)
+    allowedTools?: string[];
+    // This turn continues because a Stop hook blocked (passed to Stop hooks)
+    stopHookActive?: boolean;
+    // Cancels the model request and running tools (Ctrl+C)
+    abortSignal?: AbortSignal;
   }
-): Promise<void> {
+): Promise<AgentResult> {
+  const config = getConfig();
   const {
     workingDir,
-    model: modelId = process.env.MODEL || "claude-sonnet-4-20250514",
-    maxTokens = 8192,
+    maxTokens = config.maxTokens,
+    quiet = false,
+    onEvent,
+    state,
+    allowedTools,
+    stopHookActive = false,
+    abortSignal,
   } = options;
 
-  // Get the model
-  const model = await getModel(modelId);
+  const log = (message: string): void => {
+    if (!quiet) console.log(message);
+  };
+
+  const modelId = resolveModelAlias(options.model ?? config.model);
+
+  // Get the model; failed requests are retried, then go to the fallback models
+  const chain = withFallback(await getModel(modelId), modelId, {
+    onRetry: (notice) => {
+      log(chalk.yellow(formatRetryNotice(notice)));
+      const { modelId, attempt, delayMs, reason } = notice;
+      onEvent?.({ type: "retry", modelId, attempt, delayMs, reason });
+    },
+    onFallback: (notice) => {
+      log(chalk.yellow(formatFallbackNotice(notice)));
+      onEvent?.({ type: "model_switch", from: notice.from, to: notice.to, reason: notice.reason });
+    },
+  });
+  const model = chain.model;
 
   // Create context manager
-  const contextManager = new ContextManager(modelId);
+  const contextManager = new ContextManager(modelId, { quiet, cost: state?.cost });
+
+  // Requests that would go over the session budget are not sent
+  const costBefore = state?.cost?.total ?? 0;
+  let budgetReached = false;
+  const budgetedModel = withBudget(chain, state?.cost, () => {
+    budgetReached = true;
+  });
 
   // Create tool context
-  const ctx: ToolContext = { workingDir };
-  const tools = getTools(ctx);
+  const taskUsage: TaskUsage = { tasks: 0, promptTokens: 0, completionTokens: 0 };
+  const ctx: ToolContext = { workingDir, abortSignal, quiet, state, model: modelId, taskUsage };
+  const tools = getTools(ctx, allowedTools);
+  const planMode = state?.planMode ?? false;
+
+  // Pick up edits to instruction files made since the last turn
+  await state?.instructions?.refresh();
+
+  // Sent with every request, so it counts towards the context
+  const system = buildSystemPrompt(workingDir, planMode, state?.instructions?.formatForPrompt());
+  contextManager.setPromptOverhead(system, getModelInfo(modelId).capabilities.tools ? tools : {});
+
+  // Group file checkpoints by user turn
+  state?.checkpoints?.beginTurn(userMessage, messages.length);
+
+  // UserPromptSubmit hooks may block the prompt or add context to it
+  const promptHook = await runHooks("UserPromptSubmit", { prompt: userMessage }, { workingDir, quiet });
+  if (promptHook.blocked) {
+    log(chalk.yellow(`\nPrompt blocked by hook: ${promptHook.reason}`));
+    return {
+      text: "",
+      toolCalls: [],
+      stats: contextManager.getStats(messages),
+      error: `Prompt blocked by hook: ${promptHook.reason}`,
+    };
+  }
+  const hookContext = promptHook.context.map((text) => `\n\n[Hook context] ${text}`).join("");
 
   // Add user message to conversation
-  messages.push({ role: "user", content: userMessage });
+  messages.push({ role: "user", content: userMessage + hookContext });
 
   // Process messages for context management (pruning/compaction)
   const { messages: processedMessages, action } = await contextManager.processMessages(
     messages,
-    model
+    model,
+    state?.todos
   );
 
   // If messages were compacted, update the original array
   if (action === "compacted") {
     messages.length = 0;
     messages.push(...processedMessages);
+    // Earlier turns can no longer be located in the conversation
+    state?.checkpoints?.markCompacted();
   } else if (action === "pruned") {
     // Update messages in place with pruned versions
     messages.length = 0;
     messages.push(...processedMessages);
   }
 
-  console.log(chalk.gray("\n" + "─".repeat(40)));
+  log(chalk.gray("\n" + "─".repeat(40)));
 
   // Debug: log message count
   if (process.env.DEBUG) {
-    console.log(chalk.gray(`[Debug] Sending ${processedMessages.length} messages to ${modelId}`));
+    log(chalk.gray(`[Debug] Sending ${processedMessages.length} messages to ${modelId}`));
   }
 
-  // Use AI SDK's streamText - works identically for ALL providers
-  const result = streamText({
-    model,
-    system: buildSystemPrompt(workingDir),
+  const toolCalls: ToolCallRecord[] = [];
+  let streamErrorMessage: string | undefined;
+  // Messages of the steps finished so far, kept if the turn fails
+  let completedMessages: CoreMessage[] = [];
+  // Usage of the finished steps, with cached prompt tokens counted
+  let usage: { promptTokens: number; completionTokens: number } | undefined;
+
+  // Leave out what the model does not accept
+  const request = buildModelRequest(modelId, {
+    system,
     messages: processedMessages,
     tools,
     maxTokens,
-    maxSteps: 20, // Allow up to 20 tool call rounds
+  });
+  if (request.notes.length > 0) {
+    log(chalk.yellow(`Note: ${request.notes.join(", ")} for ${modelId}`));
+  }
+
+  // Use AI SDK's streamText - works identically for ALL providers
+  const result = streamText({
+    model: budgetedModel,
+    system: request.system,
+    messages: request.messages,
+    tools: request.tools,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    maxSteps: config.maxSteps, // Maximum tool call rounds per turn
+    // Retries are done by the model chain
+    maxRetries: 0,
+    abortSignal,
 
     // Called on errors
-    onError: (error) => {
-      console.error(chalk.red(`\nStream error: ${error}`));
+    onError: ({ error }) => {
+      streamErrorMessage = error instanceof Error ? error.message : String(error);
+      if (!quiet) {
+        console.error(chalk.red(`\nStream error: ${streamErrorMessage}`));
+      }
     },
 
     // Called when each step finishes (after tool execution)
     onStepFinish: async (step) => {
+      // The first request's prompt is exactly what was estimated; learn from it
+      const promptTokens = getPromptTokens(step.usage, step.providerMetadata);
+      if (step.stepType === "initial") {
+        contextManager.recordUsage(processedMessages, promptTokens);
+      }
+      usage = {
+        promptTokens: (usage?.promptTokens ?? 0) + promptTokens,
+        completionTokens: (usage?.completionTokens ?? 0) + step.usage.completionTokens,
+      };
+      recordCost(state?.cost, chain.modelId, "agent", step.usage, step.providerMetadata);
+      completedMessages = step.response.messages;
+
       // Log tool calls
       if (step.toolCalls && step.toolCalls.length > 0) {
         for (const tc of step.toolCalls) {
-          console.log(chalk.cyan(`\n[Tool: ${tc.toolName}]`));
+          log(chalk.cyan(`\n[Tool: ${tc.toolName}]`));
+          onEvent?.({
+            type: "tool_call",
+            toolCallId: tc.toolCallId,
+            toolName: tc.toolName,
+            args: tc.args,
+          });
         }
       }
 
       // Log tool results
       if (step.toolResults && step.toolResults.length > 0) {
-        for (const tr of step.toolResults) {
+        // Tool results are untyped since tools are built dynamically
+        for (const tr of step.toolResults as unknown as ToolCallRecord[]) {
+          toolCalls.push({
+            toolCallId: tr.toolCallId,
+            toolName: tr.toolName,
+            args: tr.args,
+            result: tr.result,
+          });
+          onEvent?.({
+            type: "tool_result",
+            toolCallId: tr.toolCallId,
+            toolName: tr.toolName,
+            result: tr.result,
+          });
+
           // tr.result contains the tool output
-          const output = String((tr as { result: unknown }).result || "");
+          const output = String(tr.result || "");
           // Show output (truncate if too long)
           if (output.length > 0) {
             if (output.length > 500) {
-              console.log(chalk.gray(`Result: ${output.slice(0, 500)}...`));
+              log(chalk.gray(`Result: ${output.slice(0, 500)}...`));
             } else {
-              console.log(chalk.gray(`Result: ${output}`));
+              log(chalk.gray(`Result: ${output}`));
             }
           }
         }
       }
+
+      onEvent?.({
+        type: "step_finish",
+        usage: { promptTokens, completionTokens: step.usage.completionTokens },
+      });
     },
   });
 
   // Stream the text output
-  let hasOutput = false;
+  let text = "";
+  // A failed request ends the stream without a finish event (and the response never resolves)
+  let finished = false;
+  let lastError: unknown;
+  let step: PartialStep = { text: "", toolCalls: [], results: new Map() };
   try {
-    for await (const textPart of result.textStream) {
-      hasOutput = true;
-      process.stdout.write(textPart);
+    for await (const part of result.fullStream) {
+      if (part.type === "text-delta") {
+        text += part.textDelta;
+        step.text += part.textDelta;
+        onEvent?.({ type: "text", text: part.textDelta });
+        if (!quiet) process.stdout.write(part.textDelta);
+      } else if (part.type === "step-finish") {
+        // Finished steps are kept through their response messages
+        step = { text: "", toolCalls: [], results: new Map() };
+      } else if (part.type === "tool-call") {
+        const { toolCallId, toolName, args } = part;
+        step.toolCalls.push({ toolCallId, toolName, args });
+      } else if ((part.type as string) === "tool-result") {
+        // Tool results are untyped since tools are built dynamically
+        const { toolCallId, result: output } = part as unknown as ToolCallRecord;
+        step.results.set(toolCallId, output);
+      } else if (part.type === "error") {
+        lastError = part.error;
+      } else if (part.type === "finish") {
+        finished = true;
+      }
     }
+    if (!finished) throw lastError ?? new Error("The model stream ended unexpectedly");
   } catch (streamError) {
-    console.error(chalk.red(`\nStream iteration error: ${streamError}`));
+    // Keep what the interrupted turn did, marked as interrupted
+    if (abortSignal?.aborted) {
+      messages.push(...completedMessages, ...buildInterruptedMessages(step));
+      log(chalk.yellow(`\n${INTERRUPTED_MARKER}`));
+      return {
+        text,
+        toolCalls,
+        stats: contextManager.getStats(messages),
+        cost: state?.cost ? state.cost.total - costBefore : undefined,
+        interrupted: true,
+      };
+    }
+
+    if (!quiet) console.error(chalk.red(`\nStream iteration error: ${streamError}`));
+    // Keep the conversation valid: finished steps stay (their tools have run),
+    // a prompt that got no answer at all is taken back
+    if (completedMessages.length > 0) {
+      messages.push(...completedMessages);
+    } else if (messages.at(-1)?.role === "user") {
+      messages.pop();
+    }
     throw streamError;
   }
 
-  if (!hasOutput) {
-    console.log(chalk.yellow("\n(No text response from model)"));
+  if (!text) {
+    log(chalk.yellow("\n(No text response from model)"));
   }
 
   // Wait for completion and get final response
@@ -189,7 +646,7 @@ export async function runAgent(
 
   // Debug: log response info
   if (process.env.DEBUG) {
-    console.log(chalk.gray(`[Debug] Response has ${response.messages?.length || 0} messages`));
+    log(chalk.gray(`[Debug] Response has ${response.messages?.length || 0} messages`));
   }
 
   // Add the assistant's final messages to conversation history
@@ -203,31 +660,76 @@ export async function runAgent(
     messages.push(msg);
   }
 
-  console.log(chalk.gray("\n" + "─".repeat(40)));
+  log(chalk.gray("\n" + "─".repeat(40)));
 
   // Log usage and context statistics
-  const usage = await result.usage;
   const stats = contextManager.getStats(messages);
 
+  // Includes sub-agents and compaction
+  const cost = state?.cost ? state.cost.total - costBefore : undefined;
+  const costText = cost !== undefined ? ` | Cost: ${formatCost(cost)}` : "";
+
   if (usage) {
-    console.log(
+    log(
       chalk.gray(
         `Tokens: ${usage.promptTokens} in, ${usage.completionTokens} out | ` +
-        `Context: ${formatTokens(stats.estimatedTokens)}/${formatTokens(stats.usableContext)} (${stats.usagePercent}%)`
+        `Context: ${formatTokens(stats.estimatedTokens)}/${formatTokens(stats.usableContext)} (${stats.usagePercent}%)` +
+        costText
       )
     );
   } else {
-    console.log(
+    log(
       chalk.gray(
-        `Context: ${formatTokens(stats.estimatedTokens)}/${formatTokens(stats.usableContext)} (${stats.usagePercent}%)`
+        `Context: ${formatTokens(stats.estimatedTokens)}/${formatTokens(stats.usableContext)} (${stats.usagePercent}%)` +
+        costText
       )
     );
   }
 
+  if (taskUsage.tasks > 0) {
+    log(
+      chalk.gray(
+        `Tasks: ${taskUsage.tasks} (${taskUsage.promptTokens} in, ${taskUsage.completionTokens} out)`
+      )
+    );
+  }
+
+  const budgetWarning = state?.cost && formatBudgetWarning(state.cost);
+  if (budgetWarning) log(budgetWarning);
+
+  const fallbackModel = chain.modelId !== modelId ? chain.modelId : undefined;
+  if (fallbackModel) {
+    log(chalk.yellow(`Answered by fallback model ${fallbackModel}; the next turn tries ${modelId} again`));
+  }
+
   // Warn if approaching limits
-  if (stats.usagePercent > 70) {
-    console.log(chalk.yellow(`⚠ Context at ${stats.usagePercent}% - will auto-manage soon`));
+  if (stats.usagePercent > config.context.pruneThreshold * 100) {
+    log(chalk.yellow(`⚠ Context at ${stats.usagePercent}% - will auto-manage soon`));
+  }
+
+  // Stop hooks can send the agent back to work, e.g. until the tests pass
+  const stopHook =
+    streamErrorMessage || budgetReached
+      ? undefined
+      : await runHooks("Stop", { text, stopHookActive }, { workingDir, quiet });
+  if (stopHook?.blocked) {
+    log(chalk.yellow(`\nStop hook: ${stopHook.reason}`));
   }
+
+  return {
+    text,
+    toolCalls,
+    usage,
+    stats,
+    taskUsage: taskUsage.tasks > 0 ? taskUsage : undefined,
+    cost,
+    error: streamErrorMessage ?? (budgetReached ? "Session budget reached" : undefined),
+    planApproved: planMode && state?.planMode === false,
+    fallbackModel,
+    continueWith: stopHook?.blocked
+      ? `A Stop hook blocked finishing the turn. Address this and continue:\n\n${stopHook.reason}`
+      : undefined,
+  };
 }
 
 // Clear conversation history
@@ -235,21 +737,36 @@ export function clearConversation(messages: CoreMessage[]): void {
   messages.length = 0;
 }
 
+// Context manager that counts the system prompt and tools the next turn would send
+function createContextManager(
+  modelId: string,
+  options: { workingDir: string; state?: AgentState }
+): ContextManager {
+  const { workingDir, state } = options;
+  const contextManager = new ContextManager(modelId);
+  contextManager.setPromptOverhead(
+    buildSystemPrompt(workingDir, state?.planMode, state?.instructions?.formatForPrompt()),
+    getTools({ workingDir, state })
+  );
+  return contextManager;
+}
+
 // Get context stats for display
 export function getContextStats(
   messages: CoreMessage[],
-  modelId: string
+  modelId: string,
+  options: { workingDir: string; state?: AgentState }
 ): ReturnType<ContextManager["getStats"]> {
-  const contextManager = new ContextManager(modelId);
-  return contextManager.getStats(messages);
+  return createContextManager(modelId, options).getStats(messages);
 }
 
 // Format context stats for display
 export function formatContextStats(
   messages: CoreMessage[],
-  modelId: string
+  modelId: string,
+  options: { workingDir: string; state?: AgentState }
 ): string {
-  const contextManager = new ContextManager(modelId);
+  const contextManager = createContextManager(modelId, options);
   const stats = contextManager.getStats(messages);
   return contextManager.formatStats(stats);
 }
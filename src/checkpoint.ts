@@ -0,0 +1,157 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+// A file's contents before the first change in a turn
+interface FileSnapshot {
+  existed: boolean;
+  content?: Buffer;
+}
+
+// File snapshots taken during one user turn
+export interface TurnCheckpoint {
+  turn: number;
+  prompt: string;
+  createdAt: string;
+  // Conversation length before this turn's user message (undefined after compaction)
+  messageIndex?: number;
+  files: Map<string, FileSnapshot>;
+}
+
+// Result of restoring one or more turns
+export interface RestoreResult {
+  restored: string[];
+  deleted: string[];
+  failed: Array<{ path: string; error: string }>;
+}
+
+/**
+ * Keeps the previous contents of files changed by write/edit,
+ * grouped by user turn, so changes can be rolled back without git.
+ */
+export class CheckpointStore {
+  private turns: TurnCheckpoint[] = [];
+  private turnCounter = 0;
+
+  /**
+   * Start a new turn; later snapshots are grouped under it
+   */
+  beginTurn(prompt: string, messageIndex?: number): void {
+    this.turnCounter++;
+    this.turns.push({
+      turn: this.turnCounter,
+      prompt: prompt.replace(/\s+/g, " ").trim().slice(0, 60),
+      createdAt: new Date().toISOString(),
+      messageIndex,
+      files: new Map(),
+    });
+  }
+
+  /**
+   * Record a file's current contents before it is modified.
+   * Only the first snapshot per file per turn is kept.
+   */
+  async snapshot(filePath: string): Promise<void> {
+    const current = this.turns[this.turns.length - 1];
+    if (!current || current.files.has(filePath)) return;
+
+    try {
+      const content = await fs.readFile(filePath);
+      current.files.set(filePath, { existed: true, content });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        current.files.set(filePath, { existed: false });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Conversation positions are lost when the conversation is compacted
+   */
+  markCompacted(): void {
+    for (const turn of this.turns) {
+      turn.messageIndex = undefined;
+    }
+  }
+
+  /**
+   * Turns that changed at least one file, oldest first
+   */
+  getTurns(): TurnCheckpoint[] {
+    return this.turns.filter((t) => t.files.size > 0);
+  }
+
+  /**
+   * All turns (including those without file changes), oldest first
+   */
+  getAllTurns(): TurnCheckpoint[] {
+    return [...this.turns];
+  }
+
+  /**
+   * Roll back the file changes of the most recent turn that changed files
+   */
+  async undo(): Promise<{ turn: TurnCheckpoint; result: RestoreResult } | null> {
+    const withChanges = this.getTurns();
+    const turn = withChanges[withChanges.length - 1];
+    if (!turn) return null;
+
+    const result = await this.restore([turn]);
+    this.turns = this.turns.filter((t) => t !== turn);
+    return { turn, result };
+  }
+
+  /**
+   * Roll back every turn from the given one onwards (files only).
+   * Returns the conversation index to truncate to, if still known.
+   */
+  async rewind(turnNumber: number): Promise<{ result: RestoreResult; messageIndex?: number }> {
+    const index = this.turns.findIndex((t) => t.turn === turnNumber);
+    if (index === -1) {
+      throw new Error(`No checkpoint for turn ${turnNumber}`);
+    }
+
+    const removed = this.turns.slice(index);
+    const result = await this.restore(removed);
+    this.turns = this.turns.slice(0, index);
+    return { result, messageIndex: removed[0].messageIndex };
+  }
+
+  /**
+   * Restore snapshots newest first, so the oldest contents win
+   */
+  private async restore(turns: TurnCheckpoint[]): Promise<RestoreResult> {
+    const result: RestoreResult = { restored: [], deleted: [], failed: [] };
+    const done = new Set<string>();
+
+    for (const turn of [...turns].reverse()) {
+      for (const [filePath, snapshot] of turn.files) {
+        try {
+          if (snapshot.existed && snapshot.content) {
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, snapshot.content);
+          } else {
+            await fs.rm(filePath, { force: true });
+          }
+          done.add(filePath);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result.failed.push({ path: filePath, error: message });
+        }
+      }
+    }
+
+    // Report each file once, by its final (oldest) state
+    for (const filePath of done) {
+      const oldest = turns.find((t) => t.files.has(filePath))?.files.get(filePath);
+      if (oldest?.existed) {
+        result.restored.push(filePath);
+      } else {
+        result.deleted.push(filePath);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,229 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { ToolContext } from "./types.js";
+import { bashTool, executeWithHooks } from "./tools/index.js";
+import { parseRule, addTemporaryRules } from "./permission.js";
+import { isProjectTrusted } from "./config.js";
+
+export const USER_COMMANDS_DIR = path.join(process.env.HOME || "~", ".karyo", "commands");
+
+// Project commands live in <workingDir>/.karyo/commands/*.md
+export function getProjectCommandsDir(workingDir: string): string {
+  return path.join(workingDir, ".karyo", "commands");
+}
+
+// A slash command defined by a Markdown file
+export interface CustomCommand {
+  // Without the slash; files in subfolders are namespaced, e.g. "git:review"
+  name: string;
+  description: string;
+  argumentHint?: string;
+  model?: string;
+  // Tool names or permission rules, e.g. "read" or "bash(git diff:*)"
+  allowedTools?: string[];
+  body: string;
+  path: string;
+  scope: "user" | "project";
+}
+
+// Split a list on commas that are not inside parentheses
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map((item) => unquote(item.trim())).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, "$2");
+}
+
+// Parse the simple "key: value" frontmatter used by command files
+function parseFrontmatter(content: string): {
+  fields: Record<string, string | string[]>;
+  body: string;
+} {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { fields: {}, body: content };
+
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | undefined;
+  for (const line of match[1].split(/\r?\n/)) {
+    // YAML list item continuing the previous key
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      const list = fields[listKey];
+      fields[listKey] = [...(Array.isArray(list) ? list : []), unquote(item[1].trim())];
+      continue;
+    }
+
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) continue;
+    const [, key, value] = field;
+    listKey = value ? undefined : key;
+    fields[key] =
+      value.startsWith("[") && value.endsWith("]")
+        ? splitList(value.slice(1, -1))
+        : unquote(value.trim());
+  }
+
+  return { fields, body: content.slice(match[0].length) };
+}
+
+// Build a command from a Markdown file's contents
+export function parseCommandFile(
+  content: string,
+  name: string,
+  filePath: string,
+  scope: CustomCommand["scope"]
+): CustomCommand {
+  const { fields, body } = parseFrontmatter(content);
+  const text = (key: string): string | undefined => {
+    const value = fields[key];
+    return typeof value === "string" && value ? value : undefined;
+  };
+
+  const tools = fields["allowed-tools"];
+  const allowedTools = Array.isArray(tools) ? tools : tools ? splitList(tools) : undefined;
+
+  // Default to the first line of the prompt
+  const firstLine = body.split("\n").find((line) => line.trim())?.trim() ?? "";
+  const description = text("description") ?? firstLine.replace(/^#+\s*/, "").slice(0, 60);
+
+  return {
+    name,
+    description,
+    argumentHint: text("argument-hint"),
+    model: text("model"),
+    allowedTools: allowedTools && allowedTools.length > 0 ? allowedTools : undefined,
+    body,
+    path: filePath,
+    scope,
+  };
+}
+
+// Read every *.md command file in a folder (and its subfolders)
+async function readCommandDir(dir: string, scope: CustomCommand["scope"]): Promise<CustomCommand[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir, { recursive: true });
+  } catch {
+    return [];
+  }
+
+  const commands: CustomCommand[] = [];
+  for (const entry of entries.sort()) {
+    if (!entry.endsWith(".md")) continue;
+    const filePath = path.join(dir, entry);
+    try {
+      const content = await fs.readFile(filePath, "utf-8");
+      const name = entry.slice(0, -3).split(path.sep).join(":");
+      commands.push(parseCommandFile(content, name, filePath, scope));
+    } catch {
+      // Skip unreadable files and directories named *.md
+    }
+  }
+  return commands;
+}
+
+/**
+ * Load custom commands; project commands override user commands of the same name.
+ * Project commands are left out until the user trusts the project (see trustProject).
+ */
+export async function loadCustomCommands(workingDir: string): Promise<CustomCommand[]> {
+  const projectCommands = (await isProjectTrusted(workingDir))
+    ? await readCommandDir(getProjectCommandsDir(workingDir), "project")
+    : [];
+
+  const byName = new Map<string, CustomCommand>();
+  for (const command of [...(await readCommandDir(USER_COMMANDS_DIR, "user")), ...projectCommands]) {
+    byName.set(command.name.toLowerCase(), command);
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Find the command for "/name args..." input
+export function findCustomCommand(
+  input: string,
+  commands: CustomCommand[]
+): { command: CustomCommand; args: string } | undefined {
+  const match = input.trim().match(/^\/(\S+)\s*([\s\S]*)$/);
+  if (!match) return undefined;
+  const command = commands.find((c) => c.name.toLowerCase() === match[1].toLowerCase());
+  return command ? { command, args: match[2].trim() } : undefined;
+}
+
+// Split arguments like a shell would for $1, $2, ... (quotes group words)
+function splitArguments(args: string): string[] {
+  return [...args.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((m) => m[1] ?? m[2] ?? m[3]);
+}
+
+// A !`command` block, or an argument placeholder outside of one
+const EXPANSION = /!`([^`]+)`|\$ARGUMENTS|\$([1-9])/g;
+
+/**
+ * Turn a command into the prompt to send: replace each !`command` with its
+ * output (run through the bash tool and its hooks, like the agent's own calls,
+ * so call this before withAllowedTools) and fill in
+ * $ARGUMENTS and $1..$9. Both happen in one pass over the file, so commands
+ * keep their own $1 and inserted text is never expanded again.
+ */
+export async function expandCustomCommand(
+  command: CustomCommand,
+  args: string,
+  ctx: ToolContext
+): Promise<string> {
+  const positional = splitArguments(args);
+
+  // Run the file's commands first, in order
+  const outputs: string[] = [];
+  for (const match of command.body.matchAll(EXPANSION)) {
+    if (match[1] === undefined) continue;
+    const output = await executeWithHooks(bashTool, { command: match[1] }, ctx);
+    outputs.push(output.trimEnd());
+  }
+
+  let usesArguments = false;
+  let block = 0;
+  let prompt = command.body.replace(EXPANSION, (_, shell?: string, n?: string) => {
+    if (shell !== undefined) return outputs[block++];
+    usesArguments = true;
+    return n === undefined ? args : (positional[Number(n) - 1] ?? "");
+  });
+
+  // Arguments are still passed on when the file has no placeholders
+  if (!usesArguments && args) {
+    prompt = `${prompt.trimEnd()}\n\nArguments: ${args}`;
+  }
+
+  return prompt.trim();
+}
+
+// Tool names from a command's allowed-tools (undefined means all tools)
+export function getAllowedToolNames(command: CustomCommand): string[] | undefined {
+  return command.allowedTools?.map((rule) => parseRule(rule, "allow", "session").tool);
+}
+
+/**
+ * Run a task with the command's allowed-tools pre-approved,
+ * removing the rules again afterwards
+ */
+export async function withAllowedTools<T>(command: CustomCommand, task: () => Promise<T>): Promise<T> {
+  const removeRules = addTemporaryRules(command.allowedTools ?? []);
+  try {
+    return await task();
+  } finally {
+    removeRules();
+  }
+}
@@ -0,0 +1,713 @@
+import { z } from "zod";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createHash } from "crypto";
+import chalk from "chalk";
+
+export const USER_CONFIG_FILE = path.join(process.env.HOME || "~", ".karyo", "config.json");
+
+// Projects whose commands and risky settings (hooks, MCP servers, ...) the
+// user trusted, with a hash of them at the time
+const TRUSTED_PROJECTS_FILE = path.join(process.env.HOME || "~", ".karyo", "trusted-projects.json");
+
+// Project config lives in <workingDir>/.karyo/config.json
+export function getProjectConfigPath(workingDir: string): string {
+  return path.join(workingDir, ".karyo", "config.json");
+}
+
+// Permission rule: "tool" or "tool(pattern)", e.g. "bash(npm test:*)" or "edit(src/**)"
+const PermissionRuleSchema = z
+  .string()
+  .regex(/^[\w-]+(\(.+\))?$/, 'Expected a rule like "tool" or "tool(pattern)"');
+
+// MCP server: a command started over stdio, or a streamable-HTTP URL.
+// Values may use ${VAR} to read environment variables.
+const McpServerSchema = z.union([
+  z
+    .object({
+      command: z.string().min(1),
+      args: z.array(z.string()).optional(),
+      env: z.record(z.string()).optional(),
+      cwd: z.string().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      url: z.string().min(1),
+      headers: z.record(z.string()).optional(),
+    })
+    .strict(),
+]);
+
+// OpenAI-compatible server (Ollama, LM Studio, vLLM, ...); models are used as "<provider>/<model>".
+// apiKey and headers may use ${VAR} to read environment variables.
+const CustomProviderSchema = z
+  .object({
+    baseURL: z.string().min(1),
+    apiKey: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    models: z.record(
+      z
+        .object({
+          // Display name for the model selector
+          name: z.string().optional(),
+          // Context window and maximum output (tokens)
+          context: z.number().int().positive(),
+          output: z.number().int().positive(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+// What a model accepts; unset flags keep the registry's value
+const CapabilitiesSchema = z
+  .object({
+    tools: z.boolean(),
+    systemPrompt: z.boolean(),
+    images: z.boolean(),
+    reasoning: z.boolean(),
+    temperature: z.boolean(),
+    promptCaching: z.boolean(),
+  })
+  .strict()
+  .partial();
+
+// Model registry entry; adds a model or overrides fields of a bundled one.
+// Prices are USD per million tokens.
+const ModelSchema = z
+  .object({
+    // Provider id (anthropic, google, openai); derived from the model id if omitted
+    provider: z.string().optional(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    context: z.number().int().positive().optional(),
+    output: z.number().int().positive().optional(),
+    pricing: z
+      .object({
+        input: z.number().nonnegative(),
+        output: z.number().nonnegative(),
+        cacheRead: z.number().nonnegative().optional(),
+        cacheWrite: z.number().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    capabilities: CapabilitiesSchema.optional(),
+  })
+  .strict();
+
+// Shell command run on an agent event
+const HookSchema = z
+  .object({
+    // Regex for the tool name (tool events only); all tools if omitted
+    matcher: z.string().optional(),
+    command: z.string().min(1),
+    timeout: z.number().int().positive().optional(),
+  })
+  .strict();
+
+// Full configuration schema
+const ConfigSchema = z
+  .object({
+    model: z.string().min(1),
+    maxTokens: z.number().int().positive(),
+    maxSteps: z.number().int().positive(),
+    // Sampling temperature (sent only to models that accept it)
+    temperature: z.number().min(0).max(2).optional(),
+    // Extra or changed models and aliases, on top of the bundled registry
+    models: z.record(ModelSchema),
+    aliases: z.record(z.string().min(1)),
+    // Models to switch to, in order, when the current one stays unavailable
+    fallbackModels: z.array(z.string().min(1)),
+    retry: z
+      .object({
+        // Retries of a failed request before falling back (0 disables them)
+        maxRetries: z.number().int().nonnegative(),
+        // Wait before the first retry (ms); doubled for each further retry
+        initialDelay: z.number().int().positive(),
+        // Longest wait (ms); a longer retry-after falls back right away
+        maxDelay: z.number().int().positive(),
+      })
+      .strict(),
+    context: z
+      .object({
+        // Protect the most recent tool outputs from pruning (tokens)
+        pruneProtect: z.number().int().nonnegative(),
+        // Only prune if at least this many tokens can be freed
+        pruneMinimum: z.number().int().nonnegative(),
+        // Start pruning at this fraction of usable context
+        pruneThreshold: z.number().gt(0).lte(1),
+        // Summarize at this fraction of usable context
+        compactThreshold: z.number().gt(0).lte(1),
+      })
+      .strict(),
+    tools: z
+      .object({
+        // Directories skipped by glob and grep
+        ignore: z.array(z.string()),
+        read: z
+          .object({
+            maxLines: z.number().int().positive(),
+            maxLineLength: z.number().int().positive(),
+          })
+          .strict(),
+        bash: z
+          .object({
+            timeout: z.number().int().positive(),
+            maxOutputLength: z.number().int().positive(),
+            // Command prefixes allowed in plan mode
+            readOnlyCommands: z.array(z.string()),
+          })
+          .strict(),
+        glob: z
+          .object({
+            maxResults: z.number().int().positive(),
+          })
+          .strict(),
+        grep: z
+          .object({
+            // Additional file patterns skipped by grep only
+            ignore: z.array(z.string()),
+            maxMatches: z.number().int().positive(),
+            maxFileSize: z.number().int().positive(),
+            maxLineLength: z.number().int().positive(),
+          })
+          .strict(),
+        // Search backend of grep and glob
+        search: z
+          .object({
+            // ripgrep binary: "auto" uses @vscode/ripgrep or rg on PATH if found,
+            // false always uses the built-in scanner
+            ripgrep: z.union([z.string().min(1), z.literal(false)]),
+            // Worker threads of the built-in scanner (0: one per CPU core, less one)
+            workers: z.number().int().nonnegative(),
+            // Time a regex may spend on one file before the file is skipped (ms)
+            regexTimeout: z.number().int().positive(),
+            // A search stops early after this many matches
+            maxCount: z.number().int().positive(),
+          })
+          .strict(),
+        applyPatch: z
+          .object({
+            // Context lines per hunk allowed to differ from the file
+            fuzzFactor: z.number().int().nonnegative(),
+          })
+          .strict(),
+        task: z
+          .object({
+            // Model for sub-agents (defaults to the current model)
+            model: z.string().min(1).optional(),
+            maxSteps: z.number().int().positive(),
+            // Tools sub-agents may use
+            tools: z.array(z.string()),
+          })
+          .strict(),
+      })
+      .strict(),
+    budget: z
+      .object({
+        // Stop the agent before a session spends more than this (USD)
+        maxCost: z.number().positive().optional(),
+        // Warn once spending reaches this fraction of maxCost
+        warnAt: z.number().gt(0).lte(1),
+      })
+      .strict(),
+    // Custom providers by name
+    providers: z.record(
+      z.string().regex(/^[\w.-]+$/, "Use letters, digits, _, . and -"),
+      CustomProviderSchema
+    ),
+    // MCP servers by name (tools appear as mcp__<name>__<tool>)
+    mcpServers: z.record(z.string().regex(/^[\w-]+$/, "Use letters, digits, _ and -"), McpServerSchema),
+    // Hook lists are combined across all config layers
+    hooks: z
+      .object({
+        PreToolUse: z.array(HookSchema),
+        PostToolUse: z.array(HookSchema),
+        UserPromptSubmit: z.array(HookSchema),
+        Stop: z.array(HookSchema),
+      })
+      .strict(),
+    // Rule lists are combined across all config layers
+    permissions: z
+      .object({
+        allow: z.array(PermissionRuleSchema),
+        ask: z.array(PermissionRuleSchema),
+        deny: z.array(PermissionRuleSchema),
+      })
+      .strict(),
+  })
+  .strict();
+
+// Keys whose arrays are concatenated across layers instead of replaced
+const CONCAT_KEYS = new Set([
+  "permissions.allow",
+  "permissions.ask",
+  "permissions.deny",
+  "hooks.PreToolUse",
+  "hooks.PostToolUse",
+  "hooks.UserPromptSubmit",
+  "hooks.Stop",
+]);
+
+// Keys whose entries are replaced whole by later layers and shown as one value
+const ENTRY_KEYS = new Set(["models", "providers", "mcpServers"]);
+
+// Config files may set any subset of values
+const ConfigFileSchema = ConfigSchema.deepPartial();
+
+export type Config = z.infer<typeof ConfigSchema>;
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+export type McpServerConfig = z.infer<typeof McpServerSchema>;
+export type CustomProviderConfig = z.infer<typeof CustomProviderSchema>;
+export type ModelConfig = z.infer<typeof ModelSchema>;
+export type HookConfig = z.infer<typeof HookSchema>;
+
+// Where an effective value came from
+export type ConfigSource = "default" | "user" | "project" | "env" | "cli";
+
+export interface LoadedConfig {
+  config: Config;
+  sources: Record<string, ConfigSource>;
+  files: { user: string; project: string };
+  // Project settings left out until the user trusts them, e.g. "hooks"
+  untrusted: string[];
+}
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Deep merge (objects merge, scalars and most arrays replace)
+function mergeInto(target: PlainObject, source: PlainObject, prefix = ""): PlainObject {
+  const result: PlainObject = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    const existing = result[key];
+    if (isPlainObject(value) && isPlainObject(existing) && !ENTRY_KEYS.has(prefix)) {
+      result[key] = mergeInto(existing, value, fullKey);
+    } else if (CONCAT_KEYS.has(fullKey) && Array.isArray(value) && Array.isArray(existing)) {
+      result[key] = [...existing, ...value.filter((v) => !existing.includes(v))];
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// Flatten leaf values to dotted keys (arrays count as leaves)
+function flattenKeys(value: PlainObject, prefix = ""): string[] {
+  const keys: string[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && !ENTRY_KEYS.has(prefix)) {
+      keys.push(...flattenKeys(child, fullKey));
+    } else if (child !== undefined) {
+      keys.push(fullKey);
+    }
+  }
+  return keys;
+}
+
+// Format zod issues as "path: message" lines
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+// Read and validate a single config file (missing file = empty config)
+async function readConfigFile(filePath: string): Promise<ConfigFile> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in config file ${filePath}: ${message}`);
+  }
+
+  const result = ConfigFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid config file ${filePath}:\n${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+// Built-in defaults
+const DEFAULT_CONFIG: Config = {
+  model: "claude-sonnet-4-20250514",
+  maxTokens: 8192,
+  maxSteps: 20,
+  models: {},
+  aliases: {},
+  fallbackModels: [],
+  retry: {
+    maxRetries: 3,
+    initialDelay: 1000,
+    maxDelay: 30000,
+  },
+  context: {
+    pruneProtect: 40000,
+    pruneMinimum: 20000,
+    pruneThreshold: 0.7,
+    compactThreshold: 0.85,
+  },
+  tools: {
+    ignore: [
+      "**/node_modules/**",
+      "**/.git/**",
+      "**/dist/**",
+      "**/build/**",
+      "**/.next/**",
+      "**/coverage/**",
+    ],
+    read: { maxLines: 2000, maxLineLength: 2000 },
+    bash: {
+      timeout: 120000,
+      maxOutputLength: 30000,
+      readOnlyCommands: [
+        "ls", "cat", "head", "tail", "less", "wc", "pwd", "echo", "which", "file", "stat",
+        "du", "df", "tree", "find", "grep", "rg", "sort", "uniq", "diff", "cut", "date",
+        "command -v", "command -V",
+        "git status", "git log", "git diff", "git show", "git branch", "git blame",
+        "git ls-files", "git rev-parse", "git remote", "git grep",
+      ],
+    },
+    glob: { maxResults: 100 },
+    grep: {
+      ignore: [
+        "**/*.min.js",
+        "**/*.map",
+        "**/package-lock.json",
+        "**/yarn.lock",
+        "**/pnpm-lock.yaml",
+      ],
+      maxMatches: 100,
+      maxFileSize: 1024 * 1024,
+      maxLineLength: 200,
+    },
+    search: { ripgrep: "auto", workers: 0, regexTimeout: 5000, maxCount: 5000 },
+    applyPatch: { fuzzFactor: 2 },
+    task: {
+      maxSteps: 15,
+      tools: ["read", "glob", "grep"],
+    },
+  },
+  budget: { warnAt: 0.8 },
+  providers: {},
+  mcpServers: {},
+  hooks: {
+    PreToolUse: [],
+    PostToolUse: [],
+    UserPromptSubmit: [],
+    Stop: [],
+  },
+  permissions: {
+    allow: [],
+    ask: [],
+    deny: [],
+  },
+};
+
+// Effective configuration for this process
+let current: LoadedConfig = {
+  config: DEFAULT_CONFIG,
+  sources: Object.fromEntries(
+    flattenKeys(DEFAULT_CONFIG).map((key) => [key, "default" as ConfigSource])
+  ),
+  files: { user: USER_CONFIG_FILE, project: "" },
+  untrusted: [],
+};
+
+// Project command files by relative path; their !`command` blocks and
+// allowed-tools run commands too (see commands.ts)
+async function readProjectCommandFiles(workingDir: string): Promise<Record<string, string>> {
+  const dir = path.join(workingDir, ".karyo", "commands");
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir, { recursive: true });
+  } catch {
+    return {};
+  }
+
+  const files: Record<string, string> = {};
+  for (const entry of entries.sort()) {
+    if (!entry.endsWith(".md")) continue;
+    try {
+      files[entry] = await fs.readFile(path.join(dir, entry), "utf-8");
+    } catch {
+      // Skip unreadable files and directories named *.md
+    }
+  }
+  return files;
+}
+
+// Project settings that run commands or skip permission prompts, so a
+// checked-out repository can't use them without the user's consent
+function riskyProjectSettings(
+  values: ConfigFile,
+  commands: Record<string, string>
+): { keys: string[]; hash: string } {
+  const risky: PlainObject = {};
+  if (Object.keys(commands).length > 0) {
+    risky.commands = commands;
+  }
+  if (Object.values(values.hooks ?? {}).some((hooks) => hooks && hooks.length > 0)) {
+    risky.hooks = values.hooks;
+  }
+  if (Object.keys(values.mcpServers ?? {}).length > 0) {
+    risky.mcpServers = values.mcpServers;
+  }
+  if (values.permissions?.allow && values.permissions.allow.length > 0) {
+    risky["permissions.allow"] = values.permissions.allow;
+  }
+  // A ripgrep path runs that program on every search
+  const ripgrep = values.tools?.search?.ripgrep;
+  if (typeof ripgrep === "string" && ripgrep !== "auto") {
+    risky["tools.search.ripgrep"] = ripgrep;
+  }
+
+  // Providers receive the conversation, with ${VAR} secrets expanded into
+  // their key and headers; settings that pick one of their models go with them
+  const providers = Object.keys(values.providers ?? {});
+  if (providers.length > 0) {
+    risky.providers = values.providers;
+    const usesProvider = (model?: string): boolean =>
+      model !== undefined && providers.some((provider) => model.startsWith(`${provider}/`));
+    if (usesProvider(values.model)) risky.model = values.model;
+    if (usesProvider(values.tools?.task?.model)) risky["tools.task.model"] = values.tools?.task?.model;
+    if (values.fallbackModels?.some(usesProvider)) risky.fallbackModels = values.fallbackModels;
+    if (Object.values(values.aliases ?? {}).some(usesProvider)) risky.aliases = values.aliases;
+  }
+  const hash = createHash("sha256").update(JSON.stringify(risky)).digest("hex");
+  return { keys: Object.keys(risky), hash };
+}
+
+// Copy of a config file without the given dotted keys
+function withoutSettings(values: ConfigFile, keys: string[]): ConfigFile {
+  const result = structuredClone(values) as PlainObject;
+  for (const key of keys) {
+    const parts = key.split(".");
+    const parent = parts
+      .slice(0, -1)
+      .reduce<unknown>((value, part) => (isPlainObject(value) ? value[part] : undefined), result);
+    if (isPlainObject(parent)) delete parent[parts[parts.length - 1]];
+  }
+  return result as ConfigFile;
+}
+
+async function readTrustedProjects(): Promise<Record<string, string>> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(TRUSTED_PROJECTS_FILE, "utf-8"));
+    return isPlainObject(parsed) ? (parsed as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Remember the project's current risky settings as trusted
+async function saveTrust(workingDir: string, hash: string): Promise<void> {
+  const trusted = await readTrustedProjects();
+  trusted[path.resolve(workingDir)] = hash;
+  await fs.mkdir(path.dirname(TRUSTED_PROJECTS_FILE), { recursive: true });
+  await fs.writeFile(TRUSTED_PROJECTS_FILE, JSON.stringify(trusted, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Trust the project's commands and risky settings (hooks, MCP servers, allow
+ * rules, ripgrep path, providers) as they are now. Reload the configuration afterwards to apply them;
+ * changing them later asks again.
+ */
+export async function trustProject(workingDir: string): Promise<void> {
+  const values = await readConfigFile(getProjectConfigPath(workingDir));
+  const commands = await readProjectCommandFiles(workingDir);
+  await saveTrust(workingDir, riskyProjectSettings(values, commands).hash);
+}
+
+/**
+ * Whether the project's commands and risky settings, as they are on disk now,
+ * were trusted (or there are none)
+ */
+export async function isProjectTrusted(workingDir: string): Promise<boolean> {
+  try {
+    const values = await readConfigFile(getProjectConfigPath(workingDir));
+    const risky = riskyProjectSettings(values, await readProjectCommandFiles(workingDir));
+    if (risky.keys.length === 0) return true;
+    return (await readTrustedProjects())[path.resolve(workingDir)] === risky.hash;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load layered configuration: defaults, then user config, then project
+ * config, then environment, then CLI flags. Later layers win. Project hooks,
+ * MCP servers, allow rules, ripgrep path and providers (with the model
+ * settings using them) are left out (and listed in `untrusted`, with
+ * "commands" for project command files) until the user trusts them with
+ * trustProject.
+ */
+export async function loadConfig(
+  workingDir: string,
+  cliOverrides: ConfigFile = {}
+): Promise<LoadedConfig> {
+  const projectFile = getProjectConfigPath(workingDir);
+
+  const envOverrides: ConfigFile = {};
+  if (process.env.MODEL) {
+    envOverrides.model = process.env.MODEL;
+  }
+
+  const cliResult = ConfigFileSchema.safeParse(cliOverrides);
+  if (!cliResult.success) {
+    throw new Error(`Invalid command line options:\n${formatIssues(cliResult.error)}`);
+  }
+
+  let projectValues = await readConfigFile(projectFile);
+  const risky = riskyProjectSettings(projectValues, await readProjectCommandFiles(workingDir));
+  const trusted = (await readTrustedProjects())[path.resolve(workingDir)] === risky.hash;
+  const untrusted = trusted ? [] : risky.keys;
+  if (untrusted.length > 0) projectValues = withoutSettings(projectValues, untrusted);
+
+  const layers: Array<{ source: ConfigSource; values: ConfigFile }> = [
+    { source: "user", values: await readConfigFile(USER_CONFIG_FILE) },
+    { source: "project", values: projectValues },
+    { source: "env", values: envOverrides },
+    { source: "cli", values: cliResult.data },
+  ];
+
+  let merged: PlainObject = DEFAULT_CONFIG;
+  const sources: Record<string, ConfigSource> = Object.fromEntries(
+    flattenKeys(DEFAULT_CONFIG).map((key) => [key, "default" as ConfigSource])
+  );
+
+  for (const layer of layers) {
+    merged = mergeInto(merged, layer.values as PlainObject);
+    for (const key of flattenKeys(layer.values as PlainObject)) {
+      sources[key] = layer.source;
+    }
+  }
+
+  const result = ConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new Error(`Invalid configuration:\n${formatIssues(result.error)}`);
+  }
+
+  current = {
+    config: result.data,
+    sources,
+    files: { user: USER_CONFIG_FILE, project: projectFile },
+    untrusted,
+  };
+  return current;
+}
+
+// Project settings left out because the user hasn't trusted them yet
+export function getUntrustedSettings(): string[] {
+  return current.untrusted;
+}
+
+// Get the effective configuration
+export function getConfig(): Config {
+  return current.config;
+}
+
+// Add a permission rule to the project config file (creating it if needed)
+export async function addProjectPermissionRule(
+  workingDir: string,
+  list: keyof Config["permissions"],
+  rule: string
+): Promise<string> {
+  const filePath = getProjectConfigPath(workingDir);
+
+  // Edit the raw file so values from other layers are not copied into it
+  let raw: PlainObject = {};
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(`Cannot update ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const permissions = isPlainObject(raw.permissions) ? raw.permissions : {};
+  const rules = Array.isArray(permissions[list]) ? (permissions[list] as string[]) : [];
+  if (!rules.includes(rule)) rules.push(rule);
+  raw.permissions = { ...permissions, [list]: rules };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(raw, null, 2) + "\n", "utf-8");
+
+  // The user chose this rule, so it doesn't need trusting again, unless
+  // other project settings are still waiting for trust
+  if (list === "allow" && current.untrusted.length === 0) {
+    const commands = await readProjectCommandFiles(workingDir);
+    await saveTrust(workingDir, riskyProjectSettings(await readConfigFile(filePath), commands).hash);
+  }
+  return filePath;
+}
+
+// Look up a value by dotted key
+function getValue(config: Config, key: string): unknown {
+  return key
+    .split(".")
+    .reduce<unknown>((value, part) => (isPlainObject(value) ? value[part] : undefined), config);
+}
+
+// Hide environment variables, headers and API keys of MCP servers and providers;
+// they often hold tokens
+function redactSecrets(key: string, value: unknown): unknown {
+  if ((key === "env" || key === "headers") && isPlainObject(value)) {
+    return Object.fromEntries(Object.keys(value).map((name) => [name, "***"]));
+  }
+  if (key === "apiKey" && typeof value === "string") {
+    return "***";
+  }
+  return value;
+}
+
+// Format the effective configuration for /config
+export function formatConfig(): string {
+  const { config, sources, files } = current;
+
+  const describeSource = (source: ConfigSource): string => {
+    switch (source) {
+      case "user":
+        return `user (${files.user})`;
+      case "project":
+        return `project (${files.project})`;
+      case "env":
+        return "environment";
+      case "cli":
+        return "command line";
+      default:
+        return "default";
+    }
+  };
+
+  const keys = flattenKeys(config);
+  const width = Math.max(...keys.map((k) => k.length));
+
+  const lines = [chalk.bold("\nConfiguration:")];
+  for (const key of keys) {
+    const value = JSON.stringify(getValue(config, key), redactSecrets);
+    const source = sources[key] || "default";
+    const sourceText = source === "default" ? chalk.dim("default") : chalk.cyan(describeSource(source));
+    lines.push(`  ${key.padEnd(width)}  ${value}  ${sourceText}`);
+  }
+
+  return lines.join("\n");
+}
@@ -1,18 +1,18 @@
-import { generateText, type CoreMessage, type LanguageModel } from "ai";
+import { generateText, type CoreMessage, type CoreTool, type LanguageModel } from "ai";
 import chalk from "chalk";
 import {
   estimateTokens,
-  estimateMessageTokens,
   estimateConversationTokens,
+  estimateToolTokens,
+  getTokenCalibration,
+  recordPromptUsage,
   formatTokens,
 } from "./util/token.js";
-import { getModelLimits, type ModelLimits } from "./types.js";
-
-// Context management thresholds (same as OpenCode)
-export const PRUNE_PROTECT = 40000; // Protect recent 40k tokens of tool outputs
-export const PRUNE_MINIMUM = 20000; // Only prune if ≥20k can be freed
-export const CONTEXT_THRESHOLD = 0.7; // Start pruning at 70% usage
-export const COMPACT_THRESHOLD = 0.85; // Summarize at 85% usage
+import type { TodoItem } from "./types.js";
+import { getModelLimits, getProviderId, type ModelLimits } from "./models.js";
+import { formatTodosForModel } from "./todos.js";
+import { recordCost, type SessionCost } from "./cost.js";
+import { getConfig, type Config } from "./config.js";
 
 // Placeholder for pruned content
 const PRUNED_PLACEHOLDER = "[Tool output cleared - context management]";
@@ -24,6 +24,10 @@ export interface ContextStats {
   outputReserve: number;
   usableContext: number;
   usagePercent: number;
+  // System prompt and tool definitions (included in estimatedTokens)
+  overheadTokens: number;
+  // Correction factor learned from provider usage (1 = uncalibrated)
+  calibration: number;
   toolOutputs: number;
   prunedOutputs: number;
 }
@@ -33,11 +37,30 @@ export interface ContextStats {
  */
 export class ContextManager {
   private modelId: string;
+  private providerId: string;
   private limits: ModelLimits;
-
-  constructor(modelId: string) {
+  // Estimated tokens of the system prompt and tool definitions
+  private overheadTokens = 0;
+  private quiet: boolean;
+  // Summaries are paid for like any other call
+  private cost?: SessionCost;
+  // Thresholds (defaults: protect 40k, prune if ≥20k freed, prune at 70%, compact at 85%)
+  private thresholds: Config["context"];
+
+  constructor(modelId: string, options: { quiet?: boolean; cost?: SessionCost } = {}) {
     this.modelId = modelId;
+    this.providerId = getProviderId(modelId);
     this.limits = getModelLimits(modelId);
+    this.quiet = options.quiet ?? false;
+    this.cost = options.cost;
+    this.thresholds = getConfig().context;
+  }
+
+  /**
+   * Log a status message unless running quietly
+   */
+  private log(message: string): void {
+    if (!this.quiet) console.log(message);
   }
 
   /**
@@ -48,10 +71,33 @@ export class ContextManager {
   }
 
   /**
-   * Estimate tokens for the conversation
+   * Count the system prompt and tool definitions sent with every request
+   */
+  setPromptOverhead(system: string, tools: Record<string, CoreTool>): void {
+    this.overheadTokens = estimateTokens(system) + estimateToolTokens(tools);
+  }
+
+  /**
+   * Scale a raw estimate by the provider's learned correction factor
+   */
+  private calibrate(tokens: number): number {
+    return Math.round(tokens * getTokenCalibration(this.providerId));
+  }
+
+  /**
+   * Estimate tokens for a request with these messages
    */
   estimateTokens(messages: CoreMessage[]): number {
-    return estimateConversationTokens(messages);
+    return this.calibrate(estimateConversationTokens(messages) + this.overheadTokens);
+  }
+
+  /**
+   * Calibrate future estimates with the prompt tokens the provider reported
+   * for a request with these messages
+   */
+  recordUsage(messages: CoreMessage[], promptTokens: number): void {
+    const estimated = estimateConversationTokens(messages) + this.overheadTokens;
+    recordPromptUsage(this.providerId, estimated, promptTokens);
   }
 
   /**
@@ -60,7 +106,7 @@ export class ContextManager {
   shouldPrune(messages: CoreMessage[]): boolean {
     const tokens = this.estimateTokens(messages);
     const usable = this.getUsableContext();
-    return tokens > usable * CONTEXT_THRESHOLD;
+    return tokens > usable * this.thresholds.pruneThreshold;
   }
 
   /**
@@ -69,7 +115,7 @@ export class ContextManager {
   shouldCompact(messages: CoreMessage[]): boolean {
     const tokens = this.estimateTokens(messages);
     const usable = this.getUsableContext();
-    return tokens > usable * COMPACT_THRESHOLD;
+    return tokens > usable * this.thresholds.compactThreshold;
   }
 
   /**
@@ -113,11 +159,11 @@ export class ContextManager {
             // Skip already pruned
             if (resultStr === PRUNED_PLACEHOLDER) continue;
 
-            const partTokens = estimateTokens(resultStr);
+            const partTokens = this.calibrate(estimateTokens(resultStr));
             accumulatedTokens += partTokens;
 
-            // After accumulating PRUNE_PROTECT, mark for pruning
-            if (accumulatedTokens > PRUNE_PROTECT) {
+            // After accumulating the protected amount, mark for pruning
+            if (accumulatedTokens > this.thresholds.pruneProtect) {
               toPrune.push({ msgIndex: i, partIndex: j, tokens: partTokens });
             }
           }
@@ -129,7 +175,7 @@ export class ContextManager {
     const potentialSavings = toPrune.reduce((sum, p) => sum + p.tokens, 0);
 
     // Only prune if we'd save enough tokens
-    if (potentialSavings < PRUNE_MINIMUM) {
+    if (potentialSavings < this.thresholds.pruneMinimum) {
       return { messages, prunedCount: 0, tokensSaved: 0 };
     }
 
@@ -153,7 +199,7 @@ export class ContextManager {
             typeof part.result === "string"
               ? part.result
               : JSON.stringify(part.result);
-          tokensSaved += estimateTokens(resultStr);
+          tokensSaved += this.calibrate(estimateTokens(resultStr));
           return { ...part, result: PRUNED_PLACEHOLDER };
         }
         return part;
@@ -166,13 +212,15 @@ export class ContextManager {
   }
 
   /**
-   * Generate a summary of the conversation
+   * Generate a summary of the conversation.
+   * The todo list is carried over verbatim so no task is lost.
    */
   async summarize(
     messages: CoreMessage[],
-    model: LanguageModel
+    model: LanguageModel,
+    todos: TodoItem[] = []
   ): Promise<CoreMessage[]> {
-    console.log(chalk.yellow("\nCompacting conversation..."));
+    this.log(chalk.yellow("\nCompacting conversation..."));
 
     try {
       const summary = await generateText({
@@ -186,7 +234,15 @@ export class ContextManager {
 Be specific about file names and changes made. Keep the summary under 1000 words.`,
         messages,
         maxTokens: 2000,
+        // The agent's model chain retries and falls back
+        maxRetries: 0,
       });
+      recordCost(this.cost, this.modelId, "compaction", summary.usage, summary.providerMetadata);
+
+      const todoSection =
+        todos.length > 0
+          ? `\n\nCurrent todo list (keep it up to date with todo_write):\n${formatTodosForModel(todos)}`
+          : "";
 
       // Return new conversation starting with summary
       return [
@@ -196,7 +252,7 @@ Be specific about file names and changes made. Keep the summary under 1000 words
         },
         {
           role: "assistant" as const,
-          content: summary.text,
+          content: summary.text + todoSection,
         },
         {
           role: "user" as const,
@@ -243,6 +299,8 @@ Be specific about file names and changes made. Keep the summary under 1000 words
       outputReserve: this.limits.output,
       usableContext,
       usagePercent: Math.round((estimatedTokens / usableContext) * 100),
+      overheadTokens: this.calibrate(this.overheadTokens),
+      calibration: getTokenCalibration(this.providerId),
       toolOutputs,
       prunedOutputs,
     };
@@ -256,11 +314,15 @@ Be specific about file names and changes made. Keep the summary under 1000 words
       chalk.bold("\nContext Usage:"),
       `  Messages: ${stats.messageCount}`,
       `  Tokens: ${formatTokens(stats.estimatedTokens)} / ${formatTokens(stats.usableContext)} (${stats.usagePercent}%)`,
+      `  System prompt and tools: ${formatTokens(stats.overheadTokens)}`,
       `  Tool outputs: ${stats.toolOutputs}${stats.prunedOutputs > 0 ? ` (${stats.prunedOutputs} pruned)` : ""}`,
+      stats.calibration === 1
+        ? chalk.gray("  Estimate not yet calibrated (learned from the first response)")
+        : chalk.gray(`  Estimate calibrated from provider usage (x${stats.calibration.toFixed(2)})`),
     ];
 
     // Add warning if approaching limits
-    if (stats.usagePercent > 70) {
+    if (stats.usagePercent > this.thresholds.pruneThreshold * 100) {
       lines.push(chalk.yellow(`  ⚠ Approaching context limit`));
     }
 
@@ -273,14 +335,15 @@ Be specific about file names and changes made. Keep the summary under 1000 words
    */
   async processMessages(
     messages: CoreMessage[],
-    model: LanguageModel
+    model: LanguageModel,
+    todos?: TodoItem[]
   ): Promise<{ messages: CoreMessage[]; action: "none" | "pruned" | "compacted" }> {
     // Check if we need to prune
     if (this.shouldPrune(messages)) {
       const { messages: pruned, prunedCount, tokensSaved } = this.pruneToolOutputs(messages);
 
       if (prunedCount > 0) {
-        console.log(
+        this.log(
           chalk.yellow(
             `\n⚡ Pruned ${prunedCount} old tool outputs (saved ~${formatTokens(tokensSaved)} tokens)`
           )
@@ -288,8 +351,8 @@ Be specific about file names and changes made. Keep the summary under 1000 words
 
         // Check if we still need compaction after pruning
         if (this.shouldCompact(pruned)) {
-          const compacted = await this.summarize(pruned, model);
-          console.log(chalk.yellow("📝 Conversation compacted to summary"));
+          const compacted = await this.summarize(pruned, model, todos);
+          this.log(chalk.yellow("📝 Conversation compacted to summary"));
           return { messages: compacted, action: "compacted" };
         }
 
@@ -299,8 +362,8 @@ Be specific about file names and changes made. Keep the summary under 1000 words
 
     // Check if we need compaction even without prunable content
     if (this.shouldCompact(messages)) {
-      const compacted = await this.summarize(messages, model);
-      console.log(chalk.yellow("📝 Conversation compacted to summary"));
+      const compacted = await this.summarize(messages, model, todos);
+      this.log(chalk.yellow("📝 Conversation compacted to summary"));
       return { messages: compacted, action: "compacted" };
     }
 
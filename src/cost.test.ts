@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { LanguageModelV1CallOptions } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+import { getConfig } from "./config.js";
+import { createSessionCost, withBudget } from "./cost.js";
+
+const model = new MockLanguageModelV1({
+  doGenerate: async () => ({
+    text: "ok",
+    finishReason: "stop",
+    usage: { promptTokens: 1, completionTokens: 1 },
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  }),
+});
+
+const request: LanguageModelV1CallOptions = {
+  inputFormat: "messages",
+  mode: { type: "regular" },
+  prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+};
+
+afterEach(() => {
+  getConfig().budget.maxCost = undefined;
+  getConfig().models = {};
+});
+
+describe("withBudget", () => {
+  it("prices the prompt for the model the chain is using", async () => {
+    getConfig().budget.maxCost = 0.01;
+    getConfig().models = {
+      "free-model": { provider: "openai", pricing: { input: 0, output: 0 } },
+      // One dollar per prompt token
+      "pricey-model": { provider: "openai", pricing: { input: 1_000_000, output: 0 } },
+    };
+
+    const chain = { model, modelId: "free-model" };
+    const budgeted = withBudget(chain, createSessionCost());
+    expect((await budgeted.doGenerate(request)).text).toBe("ok");
+
+    // The chain fell back to another model
+    chain.modelId = "pricey-model";
+    expect((await budgeted.doGenerate(request)).text).toMatch(/^\[Stopped: the next request would exceed/);
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  wrapLanguageModel,
+  type LanguageModel,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from "ai";
+import chalk from "chalk";
+import { getModelPricing } from "./models.js";
+import { getConfig } from "./config.js";
+import { estimateTokens, formatTokens } from "./util/token.js";
+import type { ModelChain } from "./retry.js";
+
+// What a model call was made for
+export type CostSource = "agent" | "task" | "compaction";
+
+// Token usage and spending of one model for one kind of call
+export interface CostEntry {
+  model: string;
+  source: CostSource;
+  calls: number;
+  // Prompt tokens not served from the cache
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  // USD; 0 when the model's prices are unknown
+  cost: number;
+  priced: boolean;
+}
+
+// Spending of a session (saved with it)
+export interface SessionCost {
+  total: number;
+  entries: CostEntry[];
+}
+
+// Usage of one call with cache tokens split out
+interface CallUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export function createSessionCost(): SessionCost {
+  return { total: 0, entries: [] };
+}
+
+// Providers report missing counts as NaN or null
+function count(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+// Split cached prompt tokens out of the usage, as each provider reports them
+function normalizeUsage(
+  usage: { promptTokens: number; completionTokens: number },
+  providerMetadata?: Record<string, Record<string, unknown>>
+): CallUsage {
+  const promptTokens = count(usage.promptTokens);
+  const completionTokens = count(usage.completionTokens);
+
+  // Anthropic reports cache reads and writes next to the uncached prompt tokens
+  const anthropic = providerMetadata?.anthropic;
+  if (anthropic) {
+    return {
+      promptTokens,
+      completionTokens,
+      cacheReadTokens: count(anthropic.cacheReadInputTokens),
+      cacheWriteTokens: count(anthropic.cacheCreationInputTokens),
+    };
+  }
+
+  // OpenAI includes cached tokens in the prompt tokens
+  const cached = Math.min(count(providerMetadata?.openai?.cachedPromptTokens), promptTokens);
+  return {
+    promptTokens: promptTokens - cached,
+    completionTokens,
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+  };
+}
+
+/**
+ * All prompt tokens of a call. Anthropic leaves cache reads and writes out of
+ * promptTokens; other providers include them.
+ */
+export function getPromptTokens(
+  usage: { promptTokens: number },
+  providerMetadata?: Record<string, Record<string, unknown>>
+): number {
+  const anthropic = providerMetadata?.anthropic;
+  const cached = anthropic
+    ? count(anthropic.cacheReadInputTokens) + count(anthropic.cacheCreationInputTokens)
+    : 0;
+  return count(usage.promptTokens) + cached;
+}
+
+// Cost of a call in USD (undefined if the model's prices are unknown)
+function calculateCost(modelId: string, usage: CallUsage): number | undefined {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) return undefined;
+
+  return (
+    (usage.promptTokens * pricing.input +
+      usage.completionTokens * pricing.output +
+      usage.cacheReadTokens * (pricing.cacheRead ?? pricing.input) +
+      usage.cacheWriteTokens * (pricing.cacheWrite ?? pricing.input)) /
+    1_000_000
+  );
+}
+
+/**
+ * Add a model call to the session's totals and return its cost in USD
+ */
+export function recordCost(
+  costs: SessionCost | undefined,
+  model: string,
+  source: CostSource,
+  usage: { promptTokens: number; completionTokens: number },
+  providerMetadata?: Record<string, Record<string, unknown>>
+): number {
+  const normalized = normalizeUsage(usage, providerMetadata);
+  const cost = calculateCost(model, normalized);
+  if (!costs) return cost ?? 0;
+
+  let entry = costs.entries.find((e) => e.model === model && e.source === source);
+  if (!entry) {
+    entry = {
+      model,
+      source,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      cost: 0,
+      priced: cost !== undefined,
+    };
+    costs.entries.push(entry);
+  }
+
+  entry.calls++;
+  entry.promptTokens += normalized.promptTokens;
+  entry.completionTokens += normalized.completionTokens;
+  entry.cacheReadTokens += normalized.cacheReadTokens;
+  entry.cacheWriteTokens += normalized.cacheWriteTokens;
+  entry.cost += cost ?? 0;
+  costs.total += cost ?? 0;
+  return cost ?? 0;
+}
+
+// "$0.0042", "$1.23"
+export function formatCost(usd: number): string {
+  return `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+/**
+ * Warning once spending nears or reaches the budget (undefined below the threshold)
+ */
+export function formatBudgetWarning(costs: SessionCost): string | undefined {
+  const { maxCost, warnAt } = getConfig().budget;
+  if (maxCost === undefined || costs.total < maxCost * warnAt) return undefined;
+
+  const spent = `${formatCost(costs.total)} of the ${formatCost(maxCost)} session budget`;
+  return costs.total >= maxCost
+    ? chalk.red(`Budget used up: ${spent} spent`)
+    : chalk.yellow(`⚠ ${spent} spent (${Math.round((costs.total / maxCost) * 100)}%)`);
+}
+
+// Notice to answer with instead of calling the model when the call would exceed the budget
+function getBudgetStop(
+  costs: SessionCost,
+  modelId: string,
+  params: LanguageModelV1CallOptions
+): string | undefined {
+  const { maxCost } = getConfig().budget;
+  if (maxCost === undefined) return undefined;
+
+  // Only the prompt's cost is known in advance
+  const tools = params.mode.type === "regular" ? (params.mode.tools ?? []) : [];
+  const promptTokens = estimateTokens(JSON.stringify(params.prompt) + JSON.stringify(tools));
+  const promptCost = ((getModelPricing(modelId)?.input ?? 0) * promptTokens) / 1_000_000;
+  if (costs.total + promptCost <= maxCost) return undefined;
+
+  return (
+    `[Stopped: the next request would exceed the session budget of ${formatCost(maxCost)} ` +
+    `(${formatCost(costs.total)} spent). Raise it with --max-cost or budget.maxCost to continue.]`
+  );
+}
+
+/**
+ * Wrap a model chain so that requests which would take the session over its
+ * budget are never sent. Prompts are priced for the model the chain is using
+ * (a fallback once it switched). The model answers with a notice instead,
+ * which ends the agent loop and keeps the conversation so far.
+ */
+export function withBudget(
+  chain: ModelChain,
+  costs: SessionCost | undefined,
+  onStop?: () => void
+): LanguageModel {
+  const { model } = chain;
+  if (!costs) return model;
+
+  const stop = (params: LanguageModelV1CallOptions): string | undefined => {
+    const notice = getBudgetStop(costs, chain.modelId, params);
+    if (notice) onStop?.();
+    return notice;
+  };
+  const rawCall = { rawPrompt: null, rawSettings: {} };
+  const noUsage = { promptTokens: 0, completionTokens: 0 };
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate, params }) => {
+        const notice = stop(params);
+        return notice ? { text: notice, finishReason: "stop", usage: noUsage, rawCall } : doGenerate();
+      },
+      wrapStream: async ({ doStream, params }) => {
+        const notice = stop(params);
+        if (!notice) return doStream();
+
+        const stream = new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: "text-delta", textDelta: notice });
+            controller.enqueue({ type: "finish", finishReason: "stop", usage: noUsage });
+            controller.close();
+          },
+        });
+        return { stream, rawCall };
+      },
+    },
+  });
+}
+
+const SOURCE_LABELS: Record<CostSource, string> = {
+  agent: "agent",
+  task: "sub-agents",
+  compaction: "compaction",
+};
+
+/**
+ * Session spending by model and kind of call, for /cost
+ */
+export function formatCostReport(costs: SessionCost): string {
+  const { maxCost } = getConfig().budget;
+  const budget =
+    maxCost === undefined
+      ? chalk.gray("(no budget; set --max-cost or budget.maxCost)")
+      : `of ${formatCost(maxCost)} budget (${Math.round((costs.total / maxCost) * 100)}%)`;
+  const lines = [chalk.bold(`\nSession cost: ${formatCost(costs.total)} ${budget}`)];
+
+  if (costs.entries.length === 0) {
+    lines.push(chalk.gray("  No model calls yet."));
+    return lines.join("\n");
+  }
+
+  for (const entry of costs.entries) {
+    const cached = entry.cacheReadTokens + entry.cacheWriteTokens;
+    const tokens =
+      `${formatTokens(entry.promptTokens)} in` +
+      (cached > 0
+        ? `, ${formatTokens(entry.cacheReadTokens)} cache read, ` +
+          `${formatTokens(entry.cacheWriteTokens)} cache write`
+        : "") +
+      `, ${formatTokens(entry.completionTokens)} out`;
+    const cost = entry.priced ? formatCost(entry.cost) : chalk.yellow("no price data");
+    lines.push(
+      `  ${chalk.white(entry.model)} ${chalk.gray(`(${SOURCE_LABELS[entry.source]})`)}: ` +
+        `${entry.calls} call(s), ${tokens} - ${cost}`
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { FileReadStore } from "./file-reads.js";
+import { editTool } from "./tools/edit.js";
+import { applyPatchTool } from "./tools/apply-patch.js";
+import type { ToolContext } from "./types.js";
+
+let dir: string;
+let file: string;
+let fileReads: FileReadStore;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "karyo-reads-"));
+  file = path.join(dir, "a.txt");
+  await fs.writeFile(file, "one\ntwo\n");
+  fileReads = new FileReadStore();
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// Change a file so that its mtime differs from the recorded one
+async function changeOnDisk(filePath: string, content: string): Promise<void> {
+  await fs.writeFile(filePath, content);
+  const later = new Date(Date.now() + 5000);
+  await fs.utimes(filePath, later, later);
+}
+
+describe("FileReadStore", () => {
+  it("refuses files that were never read", async () => {
+    expect(await fileReads.check(file)).toMatch(/has not been read yet/);
+  });
+
+  it("allows new files", async () => {
+    expect(await fileReads.check(path.join(dir, "new.txt"))).toBeUndefined();
+  });
+
+  it("allows files read and unchanged since", async () => {
+    await fileReads.record(file);
+    expect(await fileReads.check(file)).toBeUndefined();
+  });
+
+  it("refuses files changed on disk after the read", async () => {
+    await fileReads.record(file);
+    await changeOnDisk(file, "changed\n");
+    expect(await fileReads.check(file)).toMatch(/changed on disk/);
+  });
+
+  it("allows files that were only touched", async () => {
+    await fileReads.record(file);
+    await changeOnDisk(file, "one\ntwo\n");
+    expect(await fileReads.check(file)).toBeUndefined();
+  });
+
+  it("refuses files whose disk content differs from what the agent saw", async () => {
+    await fileReads.record(file, "something else\n");
+    expect(await fileReads.check(file)).toMatch(/changed on disk/);
+  });
+
+  it("refuses forgotten files", async () => {
+    await fileReads.record(file);
+    fileReads.forget(file);
+    expect(await fileReads.check(file)).toMatch(/has not been read yet/);
+  });
+});
+
+describe("file tools", () => {
+  const context = (): ToolContext => ({
+    workingDir: dir,
+    quiet: true,
+    hookApproved: true,
+    state: { planMode: false, fileReads },
+  });
+
+  it("edit refuses a file it hasn't read", async () => {
+    const result = await editTool.execute(
+      { file_path: file, old_string: "one", new_string: "ONE" },
+      context()
+    );
+    expect(result.isError).toBe(true);
+    expect(await fs.readFile(file, "utf-8")).toBe("one\ntwo\n");
+  });
+
+  it("edit refuses a file changed since it was read", async () => {
+    await fileReads.record(file);
+    await changeOnDisk(file, "one\nthree\n");
+    const result = await editTool.execute(
+      { file_path: file, old_string: "one", new_string: "ONE" },
+      context()
+    );
+    expect(result.output).toMatch(/changed on disk/);
+    expect(await fs.readFile(file, "utf-8")).toBe("one\nthree\n");
+  });
+
+  it("edit records its own change as seen", async () => {
+    await fileReads.record(file);
+    const result = await editTool.execute(
+      { file_path: file, old_string: "one", new_string: "ONE" },
+      context()
+    );
+    expect(result.isError).toBeFalsy();
+    expect(await fileReads.check(file)).toBeUndefined();
+  });
+
+  it("apply_patch refuses a file it hasn't read", async () => {
+    const patch = "--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n-one\n+ONE\n two\n";
+    const result = await applyPatchTool.execute({ patch }, context());
+    expect(result.isError).toBe(true);
+    expect(result.output).toMatch(/has not been read yet/);
+    expect(await fs.readFile(file, "utf-8")).toBe("one\ntwo\n");
+  });
+});
@@ -0,0 +1,94 @@
+import * as fs from "fs/promises";
+import { createHash } from "crypto";
+
+// What a file looked like when the agent last saw it
+interface FileRead {
+  mtimeMs: number;
+  hash: string;
+}
+
+// Snapshots tried while the file keeps changing under us
+const SNAPSHOT_ATTEMPTS = 3;
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Remembers which files the agent has read in this session, so that edits
+ * to files it never saw, or that changed on disk since, are refused.
+ */
+export class FileReadStore {
+  private reads = new Map<string, FileRead>();
+
+  /**
+   * Record a file as the agent has now seen it (after reading it, or after
+   * writing it itself). With content, the file on disk must still hold that
+   * content; if it doesn't, the next change is refused as "changed on disk".
+   * Without content, whatever is on disk now is taken as seen.
+   */
+  async record(filePath: string, content?: string): Promise<void> {
+    const expected = content === undefined ? undefined : hashContent(content);
+
+    // stat, read and stat again, so the mtime belongs to the content hashed
+    for (let attempt = 0; attempt < SNAPSHOT_ATTEMPTS; attempt++) {
+      const before = await fs.stat(filePath);
+      const onDisk = hashContent(await fs.readFile(filePath, "utf-8"));
+      const after = await fs.stat(filePath);
+      if (before.mtimeMs !== after.mtimeMs || before.size !== after.size) continue;
+
+      if (expected !== undefined && onDisk !== expected) break;
+      this.reads.set(filePath, { mtimeMs: after.mtimeMs, hash: onDisk });
+      return;
+    }
+
+    // Still being written, or not what the agent saw: an mtime that never
+    // matches makes check() compare the hash, which differs
+    this.reads.set(filePath, { mtimeMs: -1, hash: expected ?? "" });
+  }
+
+  /**
+   * Forget a file (deleted or moved away)
+   */
+  forget(filePath: string): void {
+    this.reads.delete(filePath);
+  }
+
+  /**
+   * Why the agent may not change an existing file yet, or undefined if it may.
+   * Files that don't exist can always be created.
+   */
+  async check(filePath: string): Promise<string | undefined> {
+    let stat;
+    try {
+      stat = await fs.stat(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+
+    const read = this.reads.get(filePath);
+    if (!read) {
+      return `Error: ${filePath} has not been read yet. Read it with the read tool before changing it.`;
+    }
+    if (stat.mtimeMs === read.mtimeMs) return undefined;
+
+    // Touched but unchanged files are fine
+    const content = await fs.readFile(filePath, "utf-8");
+    if (hashContent(content) === read.hash) {
+      read.mtimeMs = stat.mtimeMs;
+      return undefined;
+    }
+    return (
+      `Error: ${filePath} has changed on disk since it was last read (by the user or another ` +
+      `process). Read it again and redo the change on the current contents.`
+    );
+  }
+
+  /**
+   * Forget everything (new conversation)
+   */
+  clear(): void {
+    this.reads.clear();
+  }
+}
@@ -0,0 +1,59 @@
+// Minimal MCP server over stdio for tests. STUB_MODE=hang never answers
+// initialize; STUB_PID_FILE receives the process id once it runs.
+import { createInterface } from "readline";
+import { writeFileSync } from "fs";
+
+if (process.env.STUB_PID_FILE) writeFileSync(process.env.STUB_PID_FILE, String(process.pid));
+
+// "get.data" and "get_data" have the same tool name once sanitized
+const tools = [
+  {
+    name: "echo",
+    description: "Echo the text back",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+  },
+  { name: "get.data", description: "First data tool", inputSchema: { type: "object" } },
+  { name: "get_data", description: "Second data tool", inputSchema: { type: "object" } },
+];
+
+function send(message) {
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+}
+
+function handle(request) {
+  switch (request.method) {
+    case "initialize":
+      return {
+        protocolVersion: request.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: "stub", version: "1.0.0" },
+      };
+    case "tools/list":
+      return { tools };
+    case "tools/call": {
+      const { name, arguments: args } = request.params;
+      if (name === "echo") return { content: [{ type: "text", text: `echo: ${args.text}` }] };
+      return { content: [{ type: "text", text: name }] };
+    }
+    default:
+      return undefined;
+  }
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const request = JSON.parse(line);
+  // Notifications have no id and get no answer
+  if (request.id === undefined) return;
+  if (process.env.STUB_MODE === "hang") return;
+
+  const result = handle(request);
+  if (result === undefined) {
+    send({ id: request.id, error: { code: -32601, message: `Unknown method ${request.method}` } });
+  } else {
+    send({ id: request.id, result });
+  }
+});
@@ -0,0 +1,190 @@
+import { runAgent, type AgentEvent, type AgentResult } from "./agent.js";
+import { setInteractive } from "./permission.js";
+import { saveSession, type Session } from "./session.js";
+import { MAX_STOP_HOOK_CONTINUATIONS } from "./hooks.js";
+import type { AgentState } from "./types.js";
+
+export type OutputFormat = "text" | "json" | "stream-json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "stream-json"];
+
+// Write a single JSON line to stdout
+function writeJsonLine(value: unknown): void {
+  process.stdout.write(JSON.stringify(value) + "\n");
+}
+
+// How long -p with a prompt waits for piped input to start (ms)
+export const STDIN_TIMEOUT = 3000;
+
+/**
+ * Read all of stdin when it is piped (returns "" for a TTY). With a timeout,
+ * returns "" if no data arrives in time, e.g. for an inherited pipe that
+ * nobody writes to or closes.
+ */
+export function readStdin(timeoutMs?: number): Promise<string> {
+  if (process.stdin.isTTY) return Promise.resolve("");
+
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    let timer: NodeJS.Timeout | undefined;
+
+    const finish = (): void => {
+      clearTimeout(timer);
+      process.stdin.off("data", onData).off("end", finish).off("error", finish);
+      resolve(Buffer.concat(chunks).toString("utf-8"));
+    };
+    const onData = (chunk: Buffer | string): void => {
+      // Once input starts, read it to the end
+      clearTimeout(timer);
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    };
+
+    process.stdin.on("data", onData).once("end", finish).once("error", finish);
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        process.stdin.destroy();
+        finish();
+      }, timeoutMs);
+    }
+  });
+}
+
+// Combine the -p prompt with piped stdin content
+export function buildHeadlessPrompt(prompt: string, stdin: string): string {
+  const input = stdin.trim();
+  if (!input) return prompt;
+  if (!prompt) return input;
+  return `${prompt}\n\n${input}`;
+}
+
+/**
+ * Run a single prompt without the REPL and print the result.
+ * Returns the process exit code.
+ */
+export async function runHeadless(
+  prompt: string,
+  options: {
+    workingDir: string;
+    model: string;
+    format: OutputFormat;
+    session: Session;
+    state: AgentState;
+    // Only offer these tools to the model (custom commands)
+    allowedTools?: string[];
+  }
+): Promise<number> {
+  const { workingDir, model, format, session, state, allowedTools } = options;
+
+  // There is nobody to answer permission prompts
+  setInteractive(false);
+
+  const onEvent = (event: AgentEvent): void => {
+    if (format === "stream-json") {
+      writeJsonLine(event);
+    } else if (format === "text" && event.type === "text") {
+      process.stdout.write(event.text);
+    } else if (format === "text" && event.type === "model_switch") {
+      console.error(`Switched from ${event.from} to ${event.to}: ${event.reason}`);
+    }
+  };
+
+  if (format === "stream-json") {
+    writeJsonLine({ type: "start", sessionId: session.id, model, workingDir });
+  }
+
+  let result: AgentResult;
+  try {
+    result = await runAgent(prompt, session.messages, {
+      workingDir,
+      model,
+      quiet: true,
+      onEvent,
+      state,
+      allowedTools,
+    });
+
+    // Keep going while Stop hooks block, reporting the combined calls and usage
+    for (let i = 0; result.continueWith && i < MAX_STOP_HOOK_CONTINUATIONS; i++) {
+      const next = await runAgent(result.continueWith, session.messages, {
+        workingDir,
+        model,
+        quiet: true,
+        onEvent,
+        state,
+        allowedTools,
+        stopHookActive: true,
+      });
+      result = {
+        ...next,
+        toolCalls: [...result.toolCalls, ...next.toolCalls],
+        usage:
+          result.usage && next.usage
+            ? {
+                promptTokens: result.usage.promptTokens + next.usage.promptTokens,
+                completionTokens: result.usage.completionTokens + next.usage.completionTokens,
+              }
+            : (next.usage ?? result.usage),
+        taskUsage:
+          result.taskUsage && next.taskUsage
+            ? {
+                tasks: result.taskUsage.tasks + next.taskUsage.tasks,
+                promptTokens: result.taskUsage.promptTokens + next.taskUsage.promptTokens,
+                completionTokens:
+                  result.taskUsage.completionTokens + next.taskUsage.completionTokens,
+              }
+            : (next.taskUsage ?? result.taskUsage),
+        cost:
+          result.cost !== undefined || next.cost !== undefined
+            ? (result.cost ?? 0) + (next.cost ?? 0)
+            : undefined,
+      };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (format === "text") {
+      console.error(`Error: ${message}`);
+    } else {
+      writeJsonLine({ type: "error", sessionId: session.id, error: message });
+    }
+    await saveSession(session).catch(() => undefined);
+    return 1;
+  }
+
+  // Sub-agent tokens count towards the session total
+  for (const usage of [result.usage, result.taskUsage]) {
+    if (!usage) continue;
+    session.usage.promptTokens += usage.promptTokens;
+    session.usage.completionTokens += usage.completionTokens;
+  }
+  session.modelId = model;
+  await saveSession(session).catch((error) => {
+    console.error(`Failed to save session: ${error instanceof Error ? error.message : error}`);
+  });
+
+  const output = {
+    type: "result",
+    sessionId: session.id,
+    model,
+    text: result.text,
+    toolCalls: result.toolCalls,
+    usage: result.usage ?? null,
+    taskUsage: result.taskUsage ?? null,
+    // USD; the session total includes earlier runs of a resumed session
+    cost: result.cost ?? null,
+    sessionCost: session.cost?.total ?? null,
+    stats: result.stats,
+    fallbackModel: result.fallbackModel ?? null,
+    error: result.error ?? null,
+  };
+
+  if (format === "text") {
+    if (result.text && !result.text.endsWith("\n")) process.stdout.write("\n");
+    if (result.error) console.error(`Error: ${result.error}`);
+  } else if (format === "json") {
+    process.stdout.write(JSON.stringify(output, null, 2) + "\n");
+  } else {
+    writeJsonLine(output);
+  }
+
+  return result.error ? 1 : 0;
+}
@@ -0,0 +1,195 @@
+import { spawn } from "child_process";
+import chalk from "chalk";
+import { getConfig, type HookConfig } from "./config.js";
+
+export type HookEvent = "PreToolUse" | "PostToolUse" | "UserPromptSubmit" | "Stop";
+
+// Hooks that take longer than this are stopped and ignored
+const DEFAULT_HOOK_TIMEOUT = 60000;
+
+// Exit code that blocks the action; stderr is the reason
+const BLOCK_EXIT_CODE = 2;
+
+// A turn continues at most this many times because of Stop hooks
+export const MAX_STOP_HOOK_CONTINUATIONS = 3;
+
+// JSON written to a hook's stdin
+export interface HookPayload {
+  tool?: string;
+  args?: Record<string, unknown>;
+  result?: string;
+  isError?: boolean;
+  prompt?: string;
+  text?: string;
+  // Set when the turn is already continuing because a Stop hook blocked
+  stopHookActive?: boolean;
+}
+
+// Combined outcome of all hooks for one event
+export interface HookOutcome {
+  blocked: boolean;
+  reason?: string;
+  // A PreToolUse hook allowed the call, so it skips the permission prompt
+  approved?: boolean;
+  // Extra context for the model from hooks
+  context: string[];
+  // Replacement tool arguments (PreToolUse only)
+  args?: Record<string, unknown>;
+}
+
+// What a hook may print on stdout as JSON
+interface HookResponse {
+  decision?: "allow" | "deny" | "block";
+  reason?: string;
+  context?: string;
+  args?: Record<string, unknown>;
+}
+
+interface HookRun {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+// Run one hook command with the payload on stdin
+function runHookCommand(
+  hook: HookConfig,
+  event: HookEvent,
+  payload: Record<string, unknown>,
+  workingDir: string
+): Promise<HookRun> {
+  return new Promise((resolve) => {
+    // In its own process group, so a timeout also stops what the hook started
+    const proc = spawn(process.env.SHELL || "/bin/bash", ["-c", hook.command], {
+      cwd: workingDir,
+      env: { ...process.env, KARYO_PROJECT_DIR: workingDir, KARYO_HOOK_EVENT: event },
+      detached: process.platform !== "win32",
+    });
+
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+
+    // Children holding stdout open would delay "close", so resolve right away
+    const timer = setTimeout(() => {
+      try {
+        if (proc.pid && process.platform !== "win32") process.kill(-proc.pid, "SIGKILL");
+        else proc.kill("SIGKILL");
+      } catch {
+        // Already exited
+      }
+      proc.stdout.destroy();
+      proc.stderr.destroy();
+      resolve({ code: null, stdout: stdout.join(""), stderr: stderr.join(""), timedOut: true });
+    }, hook.timeout ?? DEFAULT_HOOK_TIMEOUT);
+
+    proc.stdout.on("data", (data: Buffer) => stdout.push(data.toString()));
+    proc.stderr.on("data", (data: Buffer) => stderr.push(data.toString()));
+
+    proc.on("error", (error) => {
+      clearTimeout(timer);
+      resolve({ code: null, stdout: "", stderr: error.message, timedOut: false });
+    });
+
+    proc.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ code, stdout: stdout.join(""), stderr: stderr.join(""), timedOut: false });
+    });
+
+    // Hooks that do not read stdin close it early; ignore the resulting EPIPE
+    proc.stdin.on("error", () => undefined);
+    proc.stdin.end(JSON.stringify(payload));
+  });
+}
+
+// Parse stdout as a hook response, if it is JSON
+function parseResponse(stdout: string): HookResponse | undefined {
+  const text = stdout.trim();
+  if (!text.startsWith("{")) return undefined;
+  try {
+    return JSON.parse(text) as HookResponse;
+  } catch {
+    return undefined;
+  }
+}
+
+// Check a hook's matcher against a tool name ("*" or no matcher matches all)
+function matchesTool(hook: HookConfig, tool: string | undefined): boolean {
+  if (!hook.matcher || hook.matcher === "*" || tool === undefined) return true;
+  try {
+    return new RegExp(`^(?:${hook.matcher})$`).test(tool);
+  } catch {
+    return hook.matcher === tool;
+  }
+}
+
+/**
+ * Run the configured hooks for an event in order.
+ * A hook blocks by exiting with code 2 (reason on stderr) or by printing
+ * {"decision": "deny" | "block", "reason": "..."}; later hooks are skipped.
+ * Hooks add context with {"context": "..."} and PreToolUse hooks can
+ * replace the arguments with {"args": {...}} or approve the call without a
+ * permission prompt with {"decision": "allow"}.
+ */
+export async function runHooks(
+  event: HookEvent,
+  payload: HookPayload,
+  options: { workingDir: string; quiet?: boolean }
+): Promise<HookOutcome> {
+  const { workingDir, quiet = false } = options;
+  const hooks = getConfig().hooks[event].filter((hook) => matchesTool(hook, payload.tool));
+  const outcome: HookOutcome = { blocked: false, context: [] };
+
+  const warn = (message: string): void => {
+    if (!quiet) console.error(chalk.yellow(message));
+  };
+
+  for (const hook of hooks) {
+    const args = outcome.args ?? payload.args;
+    const input = { event, workingDir, ...payload, args };
+    const run = await runHookCommand(hook, event, input, workingDir);
+
+    if (run.timedOut) {
+      warn(`[Hook ${event}] "${hook.command}" timed out and was ignored`);
+      continue;
+    }
+
+    if (run.code === BLOCK_EXIT_CODE) {
+      outcome.blocked = true;
+      outcome.reason = run.stderr.trim() || `Blocked by hook: ${hook.command}`;
+      return outcome;
+    }
+
+    if (run.code !== 0) {
+      // Other failures are reported but do not block
+      warn(`[Hook ${event}] "${hook.command}" failed (exit ${run.code}): ${run.stderr.trim()}`);
+      continue;
+    }
+
+    const response = parseResponse(run.stdout);
+    if (!response) {
+      // Plain output from a prompt hook is added as context
+      if (event === "UserPromptSubmit" && run.stdout.trim()) {
+        outcome.context.push(run.stdout.trim());
+      }
+      continue;
+    }
+
+    if (response.context) {
+      outcome.context.push(response.context);
+    }
+    if (response.args && event === "PreToolUse") {
+      outcome.args = response.args;
+    }
+    if (response.decision === "deny" || response.decision === "block") {
+      outcome.blocked = true;
+      outcome.reason = response.reason || `Blocked by hook: ${hook.command}`;
+      return outcome;
+    }
+    if (response.decision === "allow" && event === "PreToolUse") {
+      outcome.approved = true;
+    }
+  }
+
+  return outcome;
+}
@@ -3,11 +3,57 @@
 import "dotenv/config";
 import * as readline from "readline";
 import * as path from "path";
+import * as fs from "fs/promises";
+import { spawnSync } from "child_process";
 import chalk from "chalk";
 import type { CoreMessage } from "ai";
 import { runAgent, clearConversation, formatContextStats } from "./agent.js";
 import { login, logout, status, loadAuth } from "./auth.js";
-import { getAllModels, PROVIDERS } from "./types.js";
+import type { AgentState } from "./types.js";
+import { getAllModels, getModelAliases, getCustomModel, resolveModelAlias } from "./models.js";
+import {
+  loadConfig,
+  getConfig,
+  formatConfig,
+  getUntrustedSettings,
+  getProjectConfigPath,
+  trustProject,
+  type ConfigFile,
+} from "./config.js";
+import { setInteractive } from "./permission.js";
+import {
+  createSession,
+  saveSession,
+  loadSession,
+  loadLatestSession,
+  listSessions,
+  type Session,
+} from "./session.js";
+import { CheckpointStore, type TurnCheckpoint, type RestoreResult } from "./checkpoint.js";
+import { InstructionStore } from "./instructions.js";
+import { FileReadStore } from "./file-reads.js";
+import { connectMcpServers, closeMcpServers, getMcpServers } from "./mcp.js";
+import { formatTodoList } from "./todos.js";
+import { createSessionCost, formatCostReport } from "./cost.js";
+import { MAX_STOP_HOOK_CONTINUATIONS } from "./hooks.js";
+import {
+  loadCustomCommands,
+  findCustomCommand,
+  expandCustomCommand,
+  getAllowedToolNames,
+  withAllowedTools,
+  type CustomCommand,
+} from "./commands.js";
+import {
+  runHeadless,
+  readStdin,
+  STDIN_TIMEOUT,
+  buildHeadlessPrompt,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from "./headless.js";
+
+type CliAction = "run" | "print" | "login" | "logout" | "status" | "select-model";
 
 // Interactive model selector
 async function selectModel(): Promise<string> {
@@ -18,9 +64,11 @@ async function selectModel(): Promise<string> {
   allModels.forEach((model, index) => {
     const num = chalk.cyan(`  ${(index + 1).toString().padStart(2)})`);
     const name = chalk.white(model.name);
-    const provider = chalk.gray(`[${model.provider}]`);
+    const provider = chalk.gray(`[${model.providerName}]`);
     const desc = chalk.dim(model.description);
-    console.log(`${num} ${name} ${provider} - ${desc}`);
+    const aliases = getModelAliases(model.id);
+    const alias = aliases.length > 0 ? chalk.cyan(` (${aliases.join(", ")})`) : "";
+    console.log(`${num} ${name}${alias} ${provider} - ${desc}`);
   });
 
   console.log();
@@ -53,22 +101,254 @@ async function selectModel(): Promise<string> {
   });
 }
 
+// Interactive session selector
+async function selectSession(workingDir: string): Promise<Session | null> {
+  const sessions = await listSessions(workingDir);
+
+  if (sessions.length === 0) {
+    console.log(chalk.yellow("\nNo saved sessions for this directory."));
+    return null;
+  }
+
+  console.log(chalk.bold("\nSaved sessions:\n"));
+
+  sessions.forEach((s, index) => {
+    const num = chalk.cyan(`  ${(index + 1).toString().padStart(2)})`);
+    const id = chalk.white(s.id);
+    const updated = chalk.gray(new Date(s.updatedAt).toLocaleString());
+    const info = chalk.dim(`${s.messageCount} messages, ${s.modelId}`);
+    console.log(`${num} ${id} ${updated} - ${s.title} ${info}`);
+  });
+
+  console.log();
+
+  const answer = await new Promise<string>((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    rl.question(
+      chalk.green("Enter number (1-" + sessions.length + ", Enter to cancel): "),
+      (input) => {
+        rl.close();
+        resolve(input.trim());
+      }
+    );
+  });
+
+  const num = parseInt(answer, 10);
+  if (!(num >= 1 && num <= sessions.length)) {
+    console.log(chalk.gray("Cancelled."));
+    return null;
+  }
+
+  return loadSession(workingDir, sessions[num - 1].id);
+}
+
+// Interactive turn selector for /rewind
+async function selectTurn(turns: TurnCheckpoint[]): Promise<TurnCheckpoint | null> {
+  if (turns.length === 0) {
+    console.log(chalk.yellow("\nNo turns to rewind to."));
+    return null;
+  }
+
+  console.log(chalk.bold("\nRewind to before turn:\n"));
+
+  turns.forEach((t, index) => {
+    const num = chalk.cyan(`  ${(index + 1).toString().padStart(2)})`);
+    const files = chalk.dim(`${t.files.size} file(s) changed`);
+    console.log(`${num} ${t.prompt} ${files}`);
+  });
+
+  console.log();
+
+  const answer = await new Promise<string>((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    rl.question(
+      chalk.green("Enter number (1-" + turns.length + ", Enter to cancel): "),
+      (input) => {
+        rl.close();
+        resolve(input.trim());
+      }
+    );
+  });
+
+  const num = parseInt(answer, 10);
+  if (!(num >= 1 && num <= turns.length)) {
+    console.log(chalk.gray("Cancelled."));
+    return null;
+  }
+
+  return turns[num - 1];
+}
+
+// Print an error from a command or a turn, then carry on
+function printError(error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`\nError: ${message}`));
+}
+
+// Print which files were restored by /undo or /rewind
+function printRestoreResult(result: RestoreResult): void {
+  for (const file of result.restored) {
+    console.log(chalk.green(`  restored ${file}`));
+  }
+  for (const file of result.deleted) {
+    console.log(chalk.green(`  deleted  ${file}`));
+  }
+  for (const { path: file, error } of result.failed) {
+    console.log(chalk.red(`  failed   ${file}: ${error}`));
+  }
+}
+
+// Print the instruction files loaded for /memory
+function printInstructions(store: InstructionStore, workingDir: string, full: boolean): void {
+  const files = store.getFiles();
+  if (files.length === 0) {
+    console.log(chalk.yellow("\nNo instruction files loaded."));
+    console.log(chalk.gray("Create one with /memory edit (project) or /memory edit user."));
+    return;
+  }
+
+  console.log(chalk.bold("\nLoaded instructions:\n"));
+  for (const file of files) {
+    const scope =
+      file.scope === "nested" ? `nested: ${path.relative(workingDir, file.dir)}/` : file.scope;
+    const lines = file.content.split("\n").length;
+    console.log(`  ${chalk.white(file.path)} ${chalk.gray(`[${scope}]`)} ${chalk.dim(`${lines} lines`)}`);
+    for (const imported of file.imports) {
+      const note = imported.skipped
+        ? chalk.red(`skipped (${imported.skipped})`)
+        : imported.content === undefined
+          ? chalk.red("not found")
+          : chalk.dim("imported");
+      console.log(`    @${chalk.white(imported.path)} ${note}`);
+    }
+    if (full) {
+      console.log(chalk.gray(`\n${file.content.trim()}\n`));
+    }
+  }
+  if (!full) {
+    console.log(chalk.gray("\n/memory show prints the contents; /memory edit [user|project|<dir>] opens a file."));
+  }
+}
+
+// Open a file in $VISUAL / $EDITOR, creating it if needed
+async function openInEditor(filePath: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, "");
+
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  console.log(chalk.gray(`Opening ${filePath} in ${editor}...`));
+  const result = spawnSync(`${editor} ${JSON.stringify(filePath)}`, { stdio: "inherit", shell: true });
+  if (result.error || result.status !== 0) {
+    console.log(chalk.red(`Editor exited with an error; edit ${filePath} manually.`));
+  } else {
+    console.log(chalk.green(`Saved. Changes apply from the next message.`));
+  }
+}
+
+// Format custom commands for /help
+function formatCustomCommands(commands: CustomCommand[]): string {
+  if (commands.length === 0) {
+    return chalk.gray("  (none - add Markdown files to .karyo/commands/ or ~/.karyo/commands/)");
+  }
+  return commands
+    .map((c) => {
+      const usage = `/${c.name}${c.argumentHint ? ` ${c.argumentHint}` : ""}`;
+      return `  ${usage.padEnd(19)} ${c.description} ${chalk.gray(`(${c.scope})`)}`;
+    })
+    .join("\n");
+}
+
+// Print MCP server status and tools for /mcp
+function printMcpServers(): void {
+  const servers = getMcpServers();
+  if (servers.length === 0) {
+    console.log(chalk.yellow("\nNo MCP servers configured."));
+    console.log(chalk.gray('Add them under "mcpServers" in .karyo/config.json or ~/.karyo/config.json.'));
+    return;
+  }
+
+  console.log(chalk.bold("\nMCP servers:\n"));
+  for (const server of servers) {
+    const status =
+      server.status === "connected"
+        ? chalk.green("connected")
+        : server.status === "failed"
+          ? chalk.red("failed")
+          : chalk.yellow(server.status);
+    console.log(`  ${chalk.white(server.name)} ${chalk.gray(`[${server.transport}]`)} ${status}`);
+    if (server.error) {
+      console.log(chalk.red(`    ${server.error}`));
+    }
+    for (const tool of server.tools) {
+      console.log(`    ${chalk.cyan(tool.name)} ${chalk.dim(tool.description)}`);
+    }
+  }
+}
+
 // Parse command line arguments
 async function parseArgs(): Promise<{
   workingDir: string;
-  model: string;
-  action: "run" | "login" | "logout" | "status" | "select-model";
+  // Config values given on the command line (highest precedence)
+  overrides: ConfigFile;
+  resume?: string | true;
+  prompt: string;
+  outputFormat: OutputFormat;
+  planMode: boolean;
+  action: CliAction;
 }> {
   const args = process.argv.slice(2);
   let workingDir = process.cwd();
-  let model = process.env.MODEL || "claude-sonnet-4-20250514";
-  let action: "run" | "login" | "logout" | "status" | "select-model" = "run";
+  const overrides: ConfigFile = {};
+  let resume: string | true | undefined;
+  let prompt = "";
+  let outputFormat: OutputFormat = "text";
+  let planMode = false;
+  let action: CliAction = "run";
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--dir" || args[i] === "-d") {
       workingDir = path.resolve(args[++i] || ".");
     } else if (args[i] === "--model" || args[i] === "-m") {
-      model = args[++i] || model;
+      const model = args[++i];
+      if (model) overrides.model = model;
+    } else if (args[i] === "--max-tokens") {
+      overrides.maxTokens = Number(args[++i]);
+    } else if (args[i] === "--max-steps") {
+      overrides.maxSteps = Number(args[++i]);
+    } else if (args[i] === "--max-cost") {
+      overrides.budget = { maxCost: Number(args[++i]) };
+    } else if (args[i] === "--continue" || args[i] === "-c") {
+      resume = true;
+    } else if (args[i] === "--resume" || args[i] === "-r") {
+      const id = args[++i];
+      if (!id) {
+        console.error(chalk.red("--resume requires a session ID"));
+        process.exit(1);
+      }
+      resume = id;
+    } else if (args[i] === "--print" || args[i] === "-p") {
+      action = "print";
+      // The prompt is optional when it is piped through stdin
+      if (args[i + 1] !== undefined && !args[i + 1].startsWith("-")) {
+        prompt = args[++i];
+      }
+    } else if (args[i] === "--output-format") {
+      const format = args[++i] as OutputFormat;
+      if (!OUTPUT_FORMATS.includes(format)) {
+        console.error(
+          chalk.red(`--output-format must be one of: ${OUTPUT_FORMATS.join(", ")}`)
+        );
+        process.exit(1);
+      }
+      outputFormat = format;
+    } else if (args[i] === "--plan") {
+      planMode = true;
     } else if (args[i] === "--login") {
       action = "login";
     } else if (args[i] === "--logout") {
@@ -85,10 +365,20 @@ ${chalk.bold("Usage:")} npx tsx src/index.ts [options]
 
 ${chalk.bold("Options:")}
   -d, --dir <path>    Working directory (default: current directory)
-  -m, --model <name>  Model to use (default: claude-sonnet-4-20250514)
+  -m, --model <name>  Model or alias to use (default: claude-sonnet-4-20250514)
+  --max-tokens <n>    Maximum output tokens per response (default: 8192)
+  --max-steps <n>     Maximum tool call rounds per turn (default: 20)
+  --max-cost <usd>    Stop before the session spends more than this
   -s, --select        Interactively select a model
+  --plan              Start in plan mode (read-only until a plan is approved)
+  -c, --continue      Continue the most recent session in this directory
+  -r, --resume <id>   Resume a saved session by ID
   -h, --help          Show this help message
 
+${chalk.bold("Headless mode:")}
+  -p, --print [prompt]      Run a single prompt and exit (stdin is appended)
+  --output-format <format>  text (default), json or stream-json
+
 ${chalk.bold("Authentication:")}
   --login             Add API key for a provider
   --logout            Clear saved authentication
@@ -99,22 +389,41 @@ ${chalk.bold("Commands (during chat):")}
   /clear              Clear conversation history
   /context            Show context usage statistics
   /model              Change model
+  /sessions           List and switch saved sessions
+  /plan               Toggle plan mode
+  /undo               Undo file changes from the last turn
+  /rewind             Restore files and conversation to an earlier turn
+  /config             Show effective configuration
+  /memory             Show and edit loaded instruction files
+  /mcp                Show MCP server status and tools
+  /todos              Show the agent's todo list
+  /cost               Show what the session has cost so far
   /help               Show available commands
 
+${chalk.bold("Configuration:")}
+  ~/.karyo/config.json      User configuration
+  .karyo/config.json        Project configuration (overrides user)
+  ~/.karyo/KARYO.md         User instructions for every project
+  KARYO.md or AGENTS.md     Project instructions (also in subdirectories)
+
 ${chalk.bold("Supported Providers:")}
   - Anthropic: claude-* models (Claude Opus, Sonnet, Haiku)
   - Google: gemini-* models (Gemini 2.0, 1.5)
-  - OpenAI: gpt-* and o1-* models (GPT-4o, o1)
+  - OpenAI: gpt-*, o1-*, o3-* and o4-* models (GPT-4o, o1)
+  - Custom: <provider>/<model> for OpenAI-compatible servers under "providers" in config
+
+${chalk.bold("Model aliases:")}
+  opus, sonnet, haiku, fast, flash, gpt, mini (add more under "aliases" in config)
 `);
       process.exit(0);
     }
   }
 
-  return { workingDir, model, action };
+  return { workingDir, overrides, resume, prompt, outputFormat, planMode, action };
 }
 
 // Print welcome message
-async function printWelcome(workingDir: string, model: string): Promise<void> {
+async function printWelcome(workingDir: string, model: string, session: Session): Promise<void> {
   const auth = await loadAuth();
 
   console.log(chalk.bold.blue("\n╭─────────────────────────────────────╮"));
@@ -124,6 +433,7 @@ async function printWelcome(workingDir: string, model: string): Promise<void> {
   console.log();
   console.log(chalk.gray(`Working directory: ${workingDir}`));
   console.log(chalk.gray(`Model: ${model}`));
+  console.log(chalk.gray(`Session: ${session.id}`));
 
   if (auth?.anthropic || auth?.google || auth?.openai) {
     const providers = [];
@@ -137,7 +447,9 @@ async function printWelcome(workingDir: string, model: string): Promise<void> {
 
   console.log();
   console.log(chalk.gray("Type your message and press Enter."));
-  console.log(chalk.gray("Commands: /exit, /clear, /context, /model, /help"));
+  console.log(
+    chalk.gray("Commands: /exit, /clear, /context, /model, /sessions, /plan, /undo, /rewind, /config, /memory, /mcp, /todos, /cost, /help")
+  );
   console.log();
 }
 
@@ -145,43 +457,114 @@ async function printWelcome(workingDir: string, model: string): Promise<void> {
 function handleCommand(
   input: string,
   conversation: CoreMessage[],
-  model: string
-): "continue" | "exit" | "handled" | "model" {
+  model: string,
+  state: AgentState,
+  customCommands: CustomCommand[],
+  workingDir: string
+):
+  | "continue"
+  | "exit"
+  | "handled"
+  | "model"
+  | "sessions"
+  | "clear"
+  | "undo"
+  | "rewind"
+  | "memory"
+  | "mcp" {
   const command = input.trim().toLowerCase();
 
+  // The REPL's close handler says goodbye
   if (command === "/exit" || command === "/quit" || command === "/q") {
-    console.log(chalk.yellow("\nGoodbye!"));
     return "exit";
   }
 
   if (command === "/clear") {
-    clearConversation(conversation);
-    console.log(chalk.green("\nConversation cleared."));
-    return "handled";
+    return "clear";
   }
 
   if (command === "/model") {
     return "model";
   }
 
+  if (command === "/sessions") {
+    return "sessions";
+  }
+
+  if (command === "/undo") {
+    return "undo";
+  }
+
+  if (command === "/rewind") {
+    return "rewind";
+  }
+
+  if (command === "/memory" || command.startsWith("/memory ")) {
+    return "memory";
+  }
+
   if (command === "/context") {
-    console.log(formatContextStats(conversation, model));
+    console.log(formatContextStats(conversation, model, { workingDir, state }));
+    return "handled";
+  }
+
+  if (command === "/mcp") {
+    printMcpServers();
+    return "handled";
+  }
+
+  if (command === "/todos") {
+    console.log("\n" + formatTodoList(state.todos ?? []));
+    return "handled";
+  }
+
+  if (command === "/cost") {
+    console.log(formatCostReport(state.cost ?? createSessionCost()));
+    return "handled";
+  }
+
+  if (command === "/config") {
+    console.log(formatConfig());
+    return "handled";
+  }
+
+  if (command === "/plan") {
+    state.planMode = !state.planMode;
+    console.log(
+      state.planMode
+        ? chalk.magenta("\nPlan mode on: read-only tools until a plan is approved.")
+        : chalk.green("\nPlan mode off: all tools available.")
+    );
     return "handled";
   }
 
   if (command === "/help") {
+    const { pruneThreshold, compactThreshold } = getConfig().context;
     console.log(`
 ${chalk.bold("Available commands:")}
   /exit, /quit, /q    Exit the agent
   /clear              Clear conversation history
   /context            Show context usage statistics
   /model              Change the model
+  /sessions           List and switch saved sessions
+  /plan               Toggle plan mode (read-only exploration, then approve a plan)
+  /undo               Undo file changes made in the last turn
+  /rewind             Restore files and conversation to before an earlier turn
+  /config             Show effective configuration and its sources
+  /memory             List loaded KARYO.md / AGENTS.md files (show, edit [user|project|<dir>])
+  /mcp                Show MCP servers and their tools
+  /todos              Show the agent's todo list for this session
+  /cost               Show the session's cost by model, and the budget
   /help               Show this help message
+  Ctrl+C              Interrupt the running turn; exit at an empty prompt
+
+${chalk.bold("Custom commands:")}
+${formatCustomCommands(customCommands)}
 
 ${chalk.bold("Context Management:")}
   - Context is automatically managed to stay within model limits
-  - Old tool outputs are pruned when approaching 70% capacity
-  - Conversation is summarized when approaching 85% capacity
+  - Old tool outputs are pruned when approaching ${Math.round(pruneThreshold * 100)}% capacity
+  - Conversation is summarized when approaching ${Math.round(compactThreshold * 100)}% capacity
   - Use /context to check current usage
 
 ${chalk.bold("Tips:")}
@@ -198,8 +581,25 @@ ${chalk.bold("Tips:")}
 
 // Main REPL loop
 async function main(): Promise<void> {
-  const { workingDir, model: initialModel, action } = await parseArgs();
-  let model = initialModel;
+  const {
+    workingDir,
+    overrides,
+    resume,
+    prompt: printPrompt,
+    outputFormat,
+    planMode,
+    action,
+  } = await parseArgs();
+  // Load layered configuration (defaults, user, project, env, CLI)
+  try {
+    await loadConfig(workingDir, overrides);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(message));
+    process.exit(1);
+  }
+
+  let model = getConfig().model;
 
   // Handle auth actions
   if (action === "login") {
@@ -217,13 +617,51 @@ async function main(): Promise<void> {
     return;
   }
 
+  // Project commands and risky settings (hooks, MCP servers, providers, ...) need the user's trust
+  const untrusted = getUntrustedSettings();
+  if (untrusted.length > 0) {
+    // The .karyo folder holds both the config and the commands
+    const projectDir = path.dirname(getProjectConfigPath(workingDir));
+    const listed = untrusted.join(", ");
+    if (action === "print" || !process.stdin.isTTY) {
+      console.error(
+        chalk.yellow(`Ignoring ${listed} from ${projectDir}: run karyo interactively to trust them.`)
+      );
+    } else {
+      console.log(
+        chalk.yellow(`${projectDir} sets ${listed}, which can run commands or send your data elsewhere.`)
+      );
+      const shouldTrust = await new Promise<boolean>((resolve) => {
+        const rl = readline.createInterface({
+          input: process.stdin,
+          output: process.stdout,
+        });
+        rl.question("Trust these project settings? (y/N) ", (answer) => {
+          rl.close();
+          resolve(answer.trim().toLowerCase() === "y");
+        });
+      });
+
+      if (shouldTrust) {
+        await trustProject(workingDir);
+        await loadConfig(workingDir, overrides);
+      } else {
+        console.log(chalk.gray(`Ignoring ${listed} for this session.\n`));
+      }
+    }
+  }
+
   // Handle model selection
   if (action === "select-model") {
     model = await selectModel();
   }
 
-  // Check for any auth method
-  const auth = await loadAuth();
+  // Check for any auth method (custom providers such as a local server need none)
+  const auth = getCustomModel(resolveModelAlias(model)) ? true : await loadAuth();
+  if (!auth && action === "print") {
+    console.error("No authentication configured. Run with --login to authenticate.");
+    process.exit(1);
+  }
   if (!auth) {
     console.log(chalk.yellow("No authentication configured."));
     console.log(chalk.gray("Run with --login to authenticate.\n"));
@@ -249,97 +687,380 @@ async function main(): Promise<void> {
     }
   }
 
-  await printWelcome(workingDir, model);
+  // Start a new session or restore a saved one
+  let session: Session;
+  if (resume) {
+    const restored =
+      resume === true
+        ? await loadLatestSession(workingDir)
+        : await loadSession(workingDir, resume);
+    if (!restored) {
+      console.error(
+        chalk.red(
+          resume === true
+            ? `No saved sessions for ${workingDir}`
+            : `Session not found: ${resume}`
+        )
+      );
+      process.exit(1);
+    }
+    session = restored;
+    // Keep the session's model unless one was given explicitly
+    if (overrides.model === undefined && action !== "select-model") {
+      model = session.modelId;
+    }
+  } else {
+    session = createSession(workingDir, model);
+  }
+
+  // State shared with tools for the whole session
+  session.todos ??= [];
+  session.cost ??= createSessionCost();
+  const state: AgentState = {
+    planMode,
+    checkpoints: new CheckpointStore(),
+    instructions: new InstructionStore(workingDir),
+    fileReads: new FileReadStore(),
+    todos: session.todos,
+    cost: session.cost,
+  };
 
-  const conversation: CoreMessage[] = [];
+  // Start MCP servers so their tools are available from the first message
+  const mcpServers = await connectMcpServers(workingDir);
 
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
+  // Headless one-shot mode
+  if (action === "print") {
+    // Without a prompt, stdin is the prompt, so wait for it as long as it takes
+    const stdin = await readStdin(printPrompt ? STDIN_TIMEOUT : undefined);
+    const fullPrompt = buildHeadlessPrompt(printPrompt, stdin);
+    if (!fullPrompt.trim()) {
+      console.error("No prompt given. Pass one after -p or pipe it through stdin.");
+      process.exit(1);
+    }
 
-  const prompt = (): void => {
-    rl.question(chalk.green("\n> "), async (input) => {
-      const trimmed = input.trim();
+    // "-p '/review src'" runs a custom command
+    const custom = fullPrompt.startsWith("/")
+      ? findCustomCommand(fullPrompt, await loadCustomCommands(workingDir))
+      : undefined;
+    if (custom) setInteractive(false);
 
-      if (!trimmed) {
-        prompt();
-        return;
+    // !`command` blocks run before allowed-tools apply, like any other tool call
+    const expanded = custom
+      ? await expandCustomCommand(custom.command, custom.args, { workingDir, quiet: true, state })
+      : undefined;
+
+    const code = custom
+      ? await withAllowedTools(custom.command, async () =>
+          runHeadless(expanded ?? "", {
+            workingDir,
+            model: custom.command.model ?? model,
+            format: outputFormat,
+            session,
+            state,
+            allowedTools: getAllowedToolNames(custom.command),
+          })
+        )
+      : await runHeadless(fullPrompt, {
+          workingDir,
+          model,
+          format: outputFormat,
+          session,
+          state,
+        });
+    await closeMcpServers();
+    process.exit(code);
+  }
+
+  await printWelcome(workingDir, model, session);
+
+  for (const server of mcpServers) {
+    if (server.status === "failed") {
+      console.log(chalk.yellow(`MCP server ${server.name} failed to start: ${server.error}`));
+    }
+  }
+  const mcpToolCount = mcpServers.reduce((count, server) => count + server.tools.length, 0);
+  if (mcpToolCount > 0) {
+    const connected = mcpServers.filter((server) => server.status === "connected").length;
+    console.log(chalk.gray(`MCP: ${mcpToolCount} tool(s) from ${connected} server(s) (/mcp)`));
+  }
+
+  if (state.planMode) {
+    console.log(chalk.magenta("Plan mode: read-only tools until a plan is approved (/plan to toggle)"));
+  }
+
+  if (session.messages.length > 0) {
+    console.log(chalk.gray(`Restored ${session.messages.length} messages from session ${session.id}`));
+  }
+  if (state.todos && state.todos.length > 0) {
+    console.log(formatTodoList(state.todos));
+  }
+
+  // The conversation array is shared with the session so saves see every turn
+  const conversation: CoreMessage[] = session.messages;
+
+  const persist = async (): Promise<void> => {
+    session.modelId = model;
+    try {
+      await saveSession(session);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`Failed to save session: ${message}`));
+    }
+  };
+
+  const switchSession = (next: Session): void => {
+    session = next;
+    conversation.length = 0;
+    conversation.push(...next.messages);
+    session.messages = conversation;
+    // Checkpoints and seen files belong to the conversation
+    state.checkpoints = new CheckpointStore();
+    state.fileReads = new FileReadStore();
+    // The todo list and costs are shared with the session so they are saved with it
+    next.todos ??= [];
+    state.todos = next.todos;
+    next.cost ??= createSessionCost();
+    state.cost = next.cost;
+  };
+
+  // Set while a turn runs; Ctrl+C aborts it
+  let turnAbort: AbortController | undefined;
+
+  // Run one message, continuing into implementation when a plan is approved
+  // and while Stop hooks block the end of the turn
+  const runTurn = async (
+    message: string,
+    turnModel: string,
+    allowedTools?: string[]
+  ): Promise<void> => {
+    let next = message;
+    let tools = allowedTools;
+    let stopContinuations = 0;
+    for (;;) {
+      const result = await runAgent(next, conversation, {
+        workingDir,
+        model: turnModel,
+        state,
+        allowedTools: tools,
+        stopHookActive: stopContinuations > 0,
+        abortSignal: turnAbort?.signal,
+      });
+      // Sub-agent tokens count towards the session total
+      for (const usage of [result.usage, result.taskUsage]) {
+        if (!usage) continue;
+        session.usage.promptTokens += usage.promptTokens;
+        session.usage.completionTokens += usage.completionTokens;
       }
+      if (result.interrupted) break;
+      if (result.continueWith && stopContinuations < MAX_STOP_HOOK_CONTINUATIONS) {
+        stopContinuations++;
+        next = result.continueWith;
+        continue;
+      }
+      stopContinuations = 0;
+      // An approved plan continues straight into implementation
+      if (!result.planApproved) break;
+      console.log(chalk.green("\nPlan approved. Continuing with full tool access."));
+      next = "The plan was approved. Implement it now.";
+      tools = undefined;
+    }
+  };
 
-      // Check for commands
-      if (trimmed.startsWith("/")) {
-        const result = handleCommand(trimmed, conversation, model);
-        if (result === "exit") {
-          rl.close();
+  const startRepl = (): void => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+
+    // Set while the REPL hands stdin to an interactive selector
+    let suspended = false;
+
+    const suspend = async (task: () => Promise<void>): Promise<void> => {
+      suspended = true;
+      rl.close();
+      try {
+        await task();
+      } catch (error) {
+        printError(error);
+      }
+      startRepl();
+    };
+
+    const prompt = (): void => {
+      const promptText = state.planMode ? chalk.magenta("\n[plan] > ") : chalk.green("\n> ");
+      rl.question(promptText, async (input) => {
+        const trimmed = input.trim();
+
+        if (!trimmed) {
+          prompt();
           return;
         }
-        if (result === "model") {
-          rl.close();
-          model = await selectModel();
-          console.log(chalk.gray(`Model changed to: ${model}`));
-          // Restart readline
-          const newRl = readline.createInterface({
-            input: process.stdin,
-            output: process.stdout,
-          });
-          newRl.on("close", () => {
-            console.log(chalk.yellow("\nGoodbye!"));
-            process.exit(0);
-          });
-          const promptWithRl = (): void => {
-            newRl.question(chalk.green("\n> "), async (newInput) => {
-              const newTrimmed = newInput.trim();
-              if (!newTrimmed) {
-                promptWithRl();
-                return;
+
+        // Check for commands
+        let custom: { command: CustomCommand; args: string } | undefined;
+        try {
+          if (trimmed.startsWith("/")) {
+            // Re-read command files so new and edited commands work right away
+            const customCommands = await loadCustomCommands(workingDir);
+            const result = handleCommand(
+              trimmed,
+              conversation,
+              model,
+              state,
+              customCommands,
+              workingDir
+            );
+            if (result === "exit") {
+              rl.close();
+              return;
+            }
+            if (result === "clear") {
+              // Start a fresh session; the old one stays resumable
+              await persist();
+              clearConversation(conversation);
+              switchSession(createSession(workingDir, model));
+              console.log(chalk.green(`\nConversation cleared. New session: ${session.id}`));
+            } else if (result === "undo") {
+              const undone = await state.checkpoints?.undo();
+              if (!undone) {
+                console.log(chalk.yellow("\nNo file changes to undo."));
+              } else {
+                console.log(chalk.green(`\nUndid file changes from: ${undone.turn.prompt}`));
+                printRestoreResult(undone.result);
               }
-              if (newTrimmed.startsWith("/")) {
-                const cmdResult = handleCommand(newTrimmed, conversation, model);
-                if (cmdResult === "exit") {
-                  newRl.close();
-                  return;
-                }
-                promptWithRl();
+            } else if (result === "memory") {
+              const instructions = state.instructions;
+              const [subcommand = "", target] = trimmed.split(/\s+/).slice(1);
+              if (instructions && subcommand === "edit") {
+                await suspend(async () => {
+                  await openInEditor(await instructions.resolveEditPath(target));
+                });
                 return;
               }
-              try {
-                await runAgent(newTrimmed, conversation, { workingDir, model });
-              } catch (error) {
-                const message =
-                  error instanceof Error ? error.message : String(error);
-                console.error(chalk.red(`\nError: ${message}`));
+              if (instructions) {
+                await instructions.refresh();
+                printInstructions(instructions, workingDir, subcommand === "show");
               }
-              promptWithRl();
-            });
-          };
-          promptWithRl();
+            } else if (result === "rewind") {
+              await suspend(async () => {
+                const checkpoints = state.checkpoints;
+                if (!checkpoints) return;
+                const turn = await selectTurn(checkpoints.getAllTurns());
+                if (!turn) return;
+
+                const { result: restored, messageIndex } = await checkpoints.rewind(turn.turn);
+                printRestoreResult(restored);
+                if (messageIndex !== undefined) {
+                  conversation.length = messageIndex;
+                  console.log(chalk.green(`Rewound to before: ${turn.prompt}`));
+                } else {
+                  console.log(
+                    chalk.yellow("Files restored; the conversation was compacted and could not be rewound.")
+                  );
+                }
+                await persist();
+              });
+              return;
+            } else if (result === "model") {
+              await suspend(async () => {
+                model = await selectModel();
+                console.log(chalk.gray(`Model changed to: ${model}`));
+              });
+              return;
+            } else if (result === "sessions") {
+              await suspend(async () => {
+                await persist();
+                const selected = await selectSession(workingDir);
+                if (selected) {
+                  switchSession(selected);
+                  model = selected.modelId;
+                  console.log(
+                    chalk.green(
+                      `Switched to session ${session.id} (${conversation.length} messages, ${model})`
+                    )
+                  );
+                }
+              });
+              return;
+            } else if (result === "continue") {
+              custom = findCustomCommand(trimmed, customCommands);
+              if (!custom) {
+                const name = trimmed.split(/\s+/)[0];
+                console.log(chalk.yellow(`\nUnknown command: ${name}. Type /help for the list.`));
+              }
+            }
+            if (!custom) {
+              prompt();
+              return;
+            }
+          }
+        } catch (error) {
+          printError(error);
+          prompt();
           return;
         }
+
+        // Run agent with user input or an expanded custom command
+        turnAbort = new AbortController();
+        try {
+          if (custom) {
+            const { command, args } = custom;
+            // !`command` blocks run before allowed-tools apply, like any other tool call
+            const message = await expandCustomCommand(command, args, {
+              workingDir,
+              quiet: true,
+              state,
+            });
+            await withAllowedTools(command, async () => {
+              const commandModel = command.model ?? model;
+              console.log(chalk.gray(`Running /${command.name} with ${commandModel}`));
+              await runTurn(message, commandModel, getAllowedToolNames(command));
+            });
+          } else {
+            await runTurn(trimmed, model);
+          }
+        } catch (error) {
+          printError(error);
+        } finally {
+          turnAbort = undefined;
+        }
+
+        await persist();
         prompt();
+      });
+    };
+
+    // Ctrl+C interrupts a running turn, clears a typed line, or exits at an empty prompt
+    rl.on("SIGINT", () => {
+      if (turnAbort) {
+        if (!turnAbort.signal.aborted) {
+          console.log(chalk.yellow("\nInterrupting... (Ctrl+C again at the prompt to exit)"));
+          turnAbort.abort();
+        }
         return;
       }
-
-      // Run agent with user input
-      try {
-        await runAgent(trimmed, conversation, { workingDir, model });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        console.error(chalk.red(`\nError: ${message}`));
+      if (rl.line) {
+        rl.write(null, { ctrl: true, name: "u" });
+        rl.write(null, { ctrl: true, name: "k" });
+        return;
       }
+      rl.close();
+    });
 
-      prompt();
+    // Exit on Ctrl+D or an interrupt at an empty prompt
+    rl.on("close", async () => {
+      if (suspended) return;
+      await persist();
+      await closeMcpServers();
+      console.log(chalk.yellow("\nGoodbye!"));
+      process.exit(0);
     });
-  };
 
-  // Handle Ctrl+C gracefully
-  rl.on("close", () => {
-    console.log(chalk.yellow("\nGoodbye!"));
-    process.exit(0);
-  });
+    prompt();
+  };
 
   // Start the REPL
-  prompt();
+  startRepl();
 }
 
 // Run
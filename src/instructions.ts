@@ -0,0 +1,317 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { getConfig } from "./config.js";
+import { evaluatePermission, formatRule } from "./permission.js";
+
+// Instruction file names, in order of preference (one per directory)
+export const INSTRUCTION_FILE_NAMES = ["KARYO.md", "AGENTS.md"];
+
+export const USER_INSTRUCTIONS_DIR = path.join(process.env.HOME || "~", ".karyo");
+
+// @path imports may nest this deep
+const MAX_IMPORT_DEPTH = 5;
+
+export type InstructionScope = "user" | "project" | "nested";
+
+// A file pulled in with @path
+export interface InstructionImport {
+  path: string;
+  // Undefined if the file could not be read
+  content?: string;
+  // Why the file was not read, if it wasn't allowed
+  skipped?: string;
+}
+
+// An instruction file and everything it imports
+export interface InstructionFile {
+  path: string;
+  scope: InstructionScope;
+  // Directory the instructions apply to (the user file applies everywhere)
+  dir: string;
+  content: string;
+  imports: InstructionImport[];
+}
+
+// Find the instruction file in a directory, if any
+async function findInstructionFile(dir: string): Promise<string | null> {
+  for (const name of INSTRUCTION_FILE_NAMES) {
+    const filePath = path.join(dir, name);
+    try {
+      const stat = await fs.stat(filePath);
+      if (stat.isFile()) return filePath;
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+}
+
+// Find @path references outside code blocks and inline code
+function findImportPaths(content: string): string[] {
+  const found: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const text = line.replace(/`[^`]*`/g, "");
+    for (const match of text.matchAll(/(?:^|\s)@((?:~\/)?[\w./-]+)/g)) {
+      // Drop sentence punctuation; require a path-like reference so @mentions are left alone
+      const reference = match[1].replace(/\.+$/, "");
+      if (/[./]/.test(reference)) found.push(reference);
+    }
+  }
+
+  return found;
+}
+
+// Resolve an import relative to the file containing it
+function resolveImportPath(reference: string, baseDir: string): string {
+  if (reference.startsWith("~/")) {
+    return path.join(process.env.HOME || "~", reference.slice(2));
+  }
+  return path.resolve(baseDir, reference);
+}
+
+// Where imports may come from: the project, and for the user file also the user directory
+interface ImportScope {
+  roots: string[];
+  workingDir: string;
+}
+
+function isInside(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+// Why an import may not be read, or undefined if it may (throws if it doesn't exist)
+async function checkImport(importPath: string, scope: ImportScope): Promise<string | undefined> {
+  // Follow symlinks so a link can't point outside the allowed directories
+  const realPath = await fs.realpath(importPath);
+  const roots = await Promise.all(scope.roots.map((root) => fs.realpath(root).catch(() => root)));
+  if (!roots.some((root) => isInside(realPath, root))) {
+    return `outside ${scope.roots.join(" and ")}`;
+  }
+
+  // The agent couldn't read it either; ask rules count too since there is no one to ask yet
+  for (const candidate of new Set([importPath, realPath])) {
+    const matched = evaluatePermission("read", candidate, scope.workingDir);
+    if (matched && matched.decision !== "allow") {
+      return `${matched.decision} rule ${formatRule(matched.rule)}`;
+    }
+  }
+  return undefined;
+}
+
+// Read every file imported by content, depth first
+async function readImports(
+  content: string,
+  baseDir: string,
+  scope: ImportScope,
+  seen: Set<string>,
+  depth = 1
+): Promise<InstructionImport[]> {
+  if (depth > MAX_IMPORT_DEPTH) return [];
+
+  const imports: InstructionImport[] = [];
+  for (const reference of findImportPaths(content)) {
+    const importPath = resolveImportPath(reference, baseDir);
+    if (seen.has(importPath)) continue;
+    seen.add(importPath);
+
+    try {
+      const skipped = await checkImport(importPath, scope);
+      if (skipped) {
+        imports.push({ path: importPath, skipped });
+        continue;
+      }
+      const imported = await fs.readFile(importPath, "utf-8");
+      imports.push({ path: importPath, content: imported });
+      imports.push(...(await readImports(imported, path.dirname(importPath), scope, seen, depth + 1)));
+    } catch {
+      imports.push({ path: importPath });
+    }
+  }
+
+  return imports;
+}
+
+// Read an instruction file and its imports
+async function readInstructionFile(
+  filePath: string,
+  scope: InstructionScope,
+  dir: string,
+  workingDir: string
+): Promise<InstructionFile | null> {
+  try {
+    const content = await fs.readFile(filePath, "utf-8");
+    const roots = scope === "user" ? [USER_INSTRUCTIONS_DIR, workingDir] : [workingDir];
+    const imports = await readImports(
+      content,
+      path.dirname(filePath),
+      { roots, workingDir },
+      new Set([filePath])
+    );
+    return { path: filePath, scope, dir, content, imports };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format one instruction file (with its imports) for the model
+ */
+export function formatInstructionFile(file: InstructionFile, workingDir: string): string {
+  const where =
+    file.scope === "user"
+      ? "user instructions, apply everywhere"
+      : file.scope === "project"
+        ? "project instructions"
+        : `applies to files under ${path.relative(workingDir, file.dir)}/`;
+
+  const sections = [`## ${file.path} (${where})\n\n${file.content.trim()}`];
+  for (const imported of file.imports) {
+    if (imported.content !== undefined) {
+      sections.push(`### Imported from ${imported.path}\n\n${imported.content.trim()}`);
+    }
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Instructions from KARYO.md / AGENTS.md files: the user file, the
+ * project root file, and nested files that are loaded once the agent
+ * works under their directory.
+ */
+export class InstructionStore {
+  private files: InstructionFile[] = [];
+  // Subdirectories whose instruction files are in use
+  private activeDirs = new Set<string>();
+  // Subdirectories already checked since the last refresh
+  private checkedDirs = new Set<string>();
+
+  constructor(private workingDir: string) {}
+
+  /**
+   * Re-read all loaded files so edits take effect on the next turn
+   */
+  async refresh(): Promise<void> {
+    const files: InstructionFile[] = [];
+
+    const userPath = await findInstructionFile(USER_INSTRUCTIONS_DIR);
+    const user = userPath && (await readInstructionFile(userPath, "user", USER_INSTRUCTIONS_DIR, this.workingDir));
+    if (user) files.push(user);
+
+    const projectPath = await findInstructionFile(this.workingDir);
+    const project =
+      projectPath &&
+      (await readInstructionFile(projectPath, "project", this.workingDir, this.workingDir));
+    if (project) files.push(project);
+
+    // Outermost directories first
+    const dirs = [...this.activeDirs].sort((a, b) => a.length - b.length);
+    for (const dir of dirs) {
+      const nestedPath = await findInstructionFile(dir);
+      const nested =
+        nestedPath && (await readInstructionFile(nestedPath, "nested", dir, this.workingDir));
+      if (nested) {
+        files.push(nested);
+      } else {
+        this.activeDirs.delete(dir);
+      }
+    }
+
+    this.files = files;
+    this.checkedDirs.clear();
+  }
+
+  /**
+   * Load nested instruction files for the directories above a path the
+   * agent is working on. Returns the files that were newly loaded.
+   */
+  async activateFor(targetPath: string): Promise<InstructionFile[]> {
+    const resolved = path.resolve(this.workingDir, targetPath);
+    const relative = path.relative(this.workingDir, resolved);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) return [];
+
+    let dir = resolved;
+    try {
+      if (!(await fs.stat(resolved)).isDirectory()) dir = path.dirname(resolved);
+    } catch {
+      dir = path.dirname(resolved);
+    }
+
+    // Directories between the working directory and the target, outermost first
+    const dirs: string[] = [];
+    while (dir !== this.workingDir && dir.startsWith(this.workingDir + path.sep)) {
+      dirs.unshift(dir);
+      dir = path.dirname(dir);
+    }
+
+    const ignore = getConfig().tools.ignore;
+    const loaded: InstructionFile[] = [];
+    for (const candidate of dirs) {
+      if (this.activeDirs.has(candidate) || this.checkedDirs.has(candidate)) continue;
+      this.checkedDirs.add(candidate);
+
+      // Skip dependencies and other ignored directories
+      const relativeDir = path.relative(this.workingDir, candidate);
+      if (ignore.some((pattern) => minimatch(`${relativeDir}/`, pattern, { dot: true }))) continue;
+
+      const filePath = await findInstructionFile(candidate);
+      const file =
+        filePath && (await readInstructionFile(filePath, "nested", candidate, this.workingDir));
+      if (file) {
+        this.activeDirs.add(candidate);
+        this.files.push(file);
+        loaded.push(file);
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Loaded instruction files: user, project, then nested
+   */
+  getFiles(): InstructionFile[] {
+    return [...this.files];
+  }
+
+  /**
+   * Instructions section for the system prompt ("" if there are none)
+   */
+  formatForPrompt(): string {
+    if (this.files.length === 0) return "";
+
+    const sections = this.files.map((file) => formatInstructionFile(file, this.workingDir));
+    return (
+      "\n\nInstructions from the user and project (KARYO.md / AGENTS.md). " +
+      "Follow them; they take precedence over the default guidelines. " +
+      "Instructions from a subdirectory apply only to files under it.\n\n" +
+      sections.join("\n\n")
+    );
+  }
+
+  /**
+   * File to open for /memory edit: "user", "project" (default), or a
+   * path to an instruction file or its directory
+   */
+  async resolveEditPath(target = "project"): Promise<string> {
+    if (target === "user") {
+      return (
+        (await findInstructionFile(USER_INSTRUCTIONS_DIR)) ??
+        path.join(USER_INSTRUCTIONS_DIR, INSTRUCTION_FILE_NAMES[0])
+      );
+    }
+
+    const dir = target === "project" ? this.workingDir : path.resolve(this.workingDir, target);
+    if (INSTRUCTION_FILE_NAMES.includes(path.basename(dir))) return dir;
+    return (await findInstructionFile(dir)) ?? path.join(dir, INSTRUCTION_FILE_NAMES[0]);
+  }
+}
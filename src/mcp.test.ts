@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { getConfig } from "./config.js";
+import { closeMcpServers, connectMcpServers, getMcpToolDefinitions } from "./mcp.js";
+
+const STUB_SERVER = fileURLToPath(new URL("./fixtures/stub-mcp-server.mjs", import.meta.url));
+
+let dir: string;
+
+// Configure the stub server under the name "stub"
+function useStub(env: Record<string, string> = {}): void {
+  getConfig().mcpServers = { stub: { command: process.execPath, args: [STUB_SERVER], env } };
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "karyo-mcp-"));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await closeMcpServers();
+  getConfig().mcpServers = {};
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("MCP servers", () => {
+  it("lists a stdio server's tools and calls them", async () => {
+    useStub();
+    const [server] = await connectMcpServers(dir);
+    expect(server).toMatchObject({ name: "stub", transport: "stdio", status: "connected" });
+
+    const echo = getMcpToolDefinitions().find((tool) => tool.name === "mcp__stub__echo");
+    expect(echo?.parameters).toMatchObject({
+      jsonSchema: { type: "object", properties: { text: { type: "string" } } },
+    });
+
+    const result = await echo!.execute({ text: "hi" }, { workingDir: dir, hookApproved: true });
+    expect(result).toEqual({ output: "echo: hi", isError: undefined });
+  });
+
+  it("gives tools whose names collide after sanitizing distinct names", async () => {
+    useStub();
+    await connectMcpServers(dir);
+
+    const names = getMcpToolDefinitions().map((tool) => tool.name);
+    expect(names).toEqual(["mcp__stub__echo", "mcp__stub__get_data", "mcp__stub__get_data_2"]);
+
+    const second = getMcpToolDefinitions().find((tool) => tool.name === "mcp__stub__get_data_2");
+    const result = await second!.execute({}, { workingDir: dir, hookApproved: true });
+    expect(result.output).toBe("get_data");
+  });
+
+  it("stops a server that doesn't finish starting in time", async () => {
+    const pidFile = path.join(dir, "pid");
+    useStub({ STUB_MODE: "hang", STUB_PID_FILE: pidFile });
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+
+    const connecting = connectMcpServers(dir);
+    const pid = await vi.waitFor(async () => Number(await fs.readFile(pidFile, "utf-8")));
+    expect(isRunning(pid)).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(30000);
+    const [server] = await connecting;
+    expect(server).toMatchObject({ status: "failed", error: "Timed out after 30s" });
+
+    vi.useRealTimers();
+    await vi.waitFor(() => expect(isRunning(pid)).toBe(false), { timeout: 5000 });
+  });
+});
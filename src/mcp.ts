@@ -0,0 +1,325 @@
+import {
+  experimental_createMCPClient as createMCPClient,
+  jsonSchema,
+  type MCPTransport,
+  type JSONRPCMessage,
+  type Schema,
+} from "ai";
+import { Experimental_StdioMCPTransport as StdioMCPTransport } from "ai/mcp-stdio";
+import {
+  MCP_TOOL_PREFIX,
+  type ToolDefinition,
+  type ToolContext,
+  type ToolResult,
+} from "./types.js";
+import { getConfig, type McpServerConfig } from "./config.js";
+import { checkPermission } from "./permission.js";
+import { expandEnv, expandEnvRecord } from "./util/env.js";
+
+// Give up on servers that do not finish starting in time
+const CONNECT_TIMEOUT = 30000;
+
+type McpClient = Awaited<ReturnType<typeof createMCPClient>>;
+
+// Connection state of one configured server, shown by /mcp
+export interface McpServerState {
+  name: string;
+  transport: "stdio" | "http";
+  status: "connecting" | "connected" | "failed";
+  error?: string;
+  tools: ToolDefinition[];
+  client?: McpClient;
+}
+
+const servers = new Map<string, McpServerState>();
+
+// Tool names handed out so far, across all servers
+const toolNames = new Set<string>();
+
+// Longest tool name providers accept
+const MAX_TOOL_NAME = 64;
+
+/**
+ * MCP "streamable HTTP" transport: every message is POSTed to the server,
+ * which answers with JSON or a server-sent event stream.
+ */
+class StreamableHttpTransport implements MCPTransport {
+  private sessionId?: string;
+  private abortController = new AbortController();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>
+  ) {}
+
+  async start(): Promise<void> {
+    // Nothing to open; the first POST starts the session
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        ...this.headers,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+      },
+      body: JSON.stringify(message),
+      signal: this.abortController.signal,
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      const detail = body ? `: ${body.slice(0, 200)}` : "";
+      throw new Error(`HTTP ${response.status} from ${this.url}${detail}`);
+    }
+
+    // Notifications are acknowledged without a body
+    if (response.status === 202 || !response.body) return;
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      // Responses arrive as events; read them without blocking the sender
+      this.readEventStream(response.body).catch((error) => {
+        if (!this.abortController.signal.aborted) this.onerror?.(error);
+      });
+    } else if (contentType.includes("application/json")) {
+      const data: unknown = await response.json();
+      for (const item of Array.isArray(data) ? data : [data]) {
+        this.onmessage?.(item as JSONRPCMessage);
+      }
+    }
+  }
+
+  private async readEventStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const lines = event.split("\n");
+        const type = lines.find((l) => l.startsWith("event:"))?.slice(6).trim() ?? "message";
+        const data = lines
+          .filter((l) => l.startsWith("data:"))
+          .map((l) => l.slice(5).replace(/^ /, ""))
+          .join("\n");
+        if (type === "message" && data) {
+          this.onmessage?.(JSON.parse(data) as JSONRPCMessage);
+        }
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort();
+    // Let the server clean up the session (best effort)
+    if (this.sessionId) {
+      await fetch(this.url, {
+        method: "DELETE",
+        headers: { ...this.headers, "Mcp-Session-Id": this.sessionId },
+      }).catch(() => undefined);
+    }
+    this.onclose?.();
+  }
+}
+
+// Tool names must be short and use only letters, digits, _ and -.
+// Names that collide after that get a numeric suffix.
+function toToolName(server: string, tool: string): string {
+  const base = `${MCP_TOOL_PREFIX}${server}__${tool}`.replace(/[^\w-]/g, "_").slice(0, MAX_TOOL_NAME);
+  let name = base;
+  for (let i = 2; toolNames.has(name); i++) {
+    const suffix = `_${i}`;
+    name = base.slice(0, MAX_TOOL_NAME - suffix.length) + suffix;
+  }
+  toolNames.add(name);
+  return name;
+}
+
+// The client types tool parameters as zod, but they are JSON schemas built
+// from the server's inputSchema
+function toParameters(parameters: unknown): Schema {
+  const schema =
+    typeof parameters === "object" && parameters !== null && "jsonSchema" in parameters
+      ? parameters.jsonSchema
+      : undefined;
+  return jsonSchema(
+    typeof schema === "object" && schema !== null
+      ? (schema as Parameters<typeof jsonSchema>[0])
+      : { type: "object", properties: {} }
+  );
+}
+
+// Flatten an MCP tool result into text for the model
+function formatToolResult(result: unknown): ToolResult {
+  const { content, isError, toolResult } = result as {
+    content?: Array<Record<string, unknown>>;
+    isError?: boolean;
+    toolResult?: unknown;
+  };
+
+  if (!content) {
+    return { output: JSON.stringify(toolResult ?? result, null, 2) };
+  }
+
+  const parts = content.map((part) => {
+    switch (part.type) {
+      case "text":
+        return String(part.text);
+      case "resource": {
+        const resource = part.resource as { uri?: string; text?: string };
+        return resource.text ?? `[Resource: ${resource.uri}]`;
+      }
+      default:
+        return `[${String(part.type)} content${part.mimeType ? ` (${part.mimeType})` : ""}]`;
+    }
+  });
+
+  const output = parts.join("\n") || "(No output)";
+  return { output: isError ? `Error: ${output}` : output, isError };
+}
+
+// Wrap a server's tools as tool definitions with permission checks
+async function loadServerTools(serverName: string, client: McpClient): Promise<ToolDefinition[]> {
+  const tools = await client.tools();
+
+  return Object.entries(tools).map(([toolName, mcpTool]) => {
+    const name = toToolName(serverName, toolName);
+
+    const execute = async (args: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> => {
+      const argsText = JSON.stringify(args, null, 2);
+      const permission = await checkPermission({
+        tool: name,
+        subject: JSON.stringify(args),
+        details: `MCP tool ${toolName} on server "${serverName}"\n\n${argsText}`,
+        defaultDecision: "ask",
+        workingDir: ctx.workingDir,
+        preApproved: ctx.hookApproved,
+      });
+
+      if (!permission.allowed) {
+        return { output: permission.message || "Permission denied", isError: true };
+      }
+
+      try {
+        const result = await mcpTool.execute(args, {
+          toolCallId: name,
+          messages: [],
+          abortSignal: ctx.abortSignal,
+        });
+        return formatToolResult(result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { output: `Error calling MCP tool ${toolName}: ${message}`, isError: true };
+      }
+    };
+
+    return {
+      name,
+      description: `[MCP ${serverName}] ${mcpTool.description ?? toolName}`,
+      parameters: toParameters(mcpTool.parameters),
+      execute,
+    };
+  });
+}
+
+// Start one server and list its tools
+async function connectServer(
+  state: McpServerState,
+  config: McpServerConfig,
+  workingDir: string
+): Promise<void> {
+  const transport =
+    "command" in config
+      ? new StdioMCPTransport({
+          command: config.command,
+          args: (config.args ?? []).map(expandEnv),
+          env: { ...(process.env as Record<string, string>), ...expandEnvRecord(config.env) },
+          cwd: config.cwd ?? workingDir,
+          // Server logs would interleave with the REPL
+          stderr: "ignore",
+        })
+      : new StreamableHttpTransport(expandEnv(config.url), expandEnvRecord(config.headers));
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${CONNECT_TIMEOUT / 1000}s`)),
+      CONNECT_TIMEOUT
+    );
+  });
+
+  const connecting = createMCPClient({ transport, name: "karyo", onUncaughtError: () => undefined });
+  let client: McpClient | undefined;
+  try {
+    client = await Promise.race([connecting, timeout]);
+    state.tools = await Promise.race([loadServerTools(state.name, client), timeout]);
+    state.client = client;
+    state.status = "connected";
+  } catch (error) {
+    state.status = "failed";
+    state.error = error instanceof Error ? error.message : String(error);
+    if (client) {
+      await client.close().catch(() => undefined);
+    } else {
+      // Timed out while starting: stop the server process, and the client if it still comes up
+      connecting.then((late) => late.close(), () => undefined).catch(() => undefined);
+      await transport.close().catch(() => undefined);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Connect to every server in the mcpServers config, in parallel.
+ * Servers that fail are reported by getMcpServers and skipped.
+ */
+export async function connectMcpServers(workingDir: string): Promise<McpServerState[]> {
+  const configured = getConfig().mcpServers;
+
+  const pending = Object.entries(configured).map(([name, config]) => {
+    const state: McpServerState = {
+      name,
+      transport: "command" in config ? "stdio" : "http",
+      status: "connecting",
+      tools: [],
+    };
+    servers.set(name, state);
+    return connectServer(state, config, workingDir);
+  });
+
+  await Promise.all(pending);
+  return getMcpServers();
+}
+
+// All configured servers and their status
+export function getMcpServers(): McpServerState[] {
+  return [...servers.values()];
+}
+
+// Tool definitions from all connected servers
+export function getMcpToolDefinitions(): ToolDefinition[] {
+  return getMcpServers().flatMap((server) => (server.status === "connected" ? server.tools : []));
+}
+
+// Stop stdio servers and end HTTP sessions
+export async function closeMcpServers(): Promise<void> {
+  await Promise.all(getMcpServers().map((server) => server.client?.close().catch(() => undefined)));
+  servers.clear();
+  toolNames.clear();
+}
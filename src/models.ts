@@ -0,0 +1,229 @@
+import registry from "./models.json" with { type: "json" };
+import { getConfig, type CustomProviderConfig, type ModelConfig } from "./config.js";
+
+// What a model accepts; runAgent shapes its requests to match
+export interface ModelCapabilities {
+  tools: boolean;
+  systemPrompt: boolean;
+  images: boolean;
+  reasoning: boolean;
+  temperature: boolean;
+  // Provider caches prompt prefixes (Anthropic needs cache breakpoints)
+  promptCaching: boolean;
+}
+
+// Prices in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  // Prompt tokens read from the provider's cache
+  cacheRead?: number;
+  // Prompt tokens written to the cache (Anthropic)
+  cacheWrite?: number;
+}
+
+// Model context and output limits
+export interface ModelLimits {
+  context: number;
+  output: number;
+}
+
+// Everything known about a model
+export interface ModelInfo extends ModelLimits {
+  id: string;
+  name: string;
+  description: string;
+  provider: string;
+  pricing?: ModelPricing;
+  capabilities: ModelCapabilities;
+}
+
+// Shape of models.json
+interface RegistryModel {
+  id: string;
+  name: string;
+  description: string;
+  context?: number;
+  output?: number;
+  pricing?: ModelPricing;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+interface RegistryProvider {
+  id: string;
+  name: string;
+  // Model ids starting with one of these belong to the provider
+  prefixes: string[];
+  defaults: ModelLimits & { capabilities: ModelCapabilities };
+  models: RegistryModel[];
+}
+
+const PROVIDERS: RegistryProvider[] = registry.providers;
+
+// Custom (OpenAI-compatible) providers: limits for unlisted models and what
+// local models usually support
+const CUSTOM_DEFAULTS: RegistryProvider["defaults"] = {
+  context: 32768,
+  output: 4096,
+  capabilities: {
+    tools: true,
+    systemPrompt: true,
+    images: false,
+    reasoning: false,
+    temperature: true,
+    promptCaching: false,
+  },
+};
+
+// A "<provider>/<model>" ID of a custom provider from config
+export interface CustomModel {
+  providerId: string;
+  provider: CustomProviderConfig;
+  // Model name as the server knows it
+  model: string;
+}
+
+// Look up the custom provider of a model ID, if it has one
+export function getCustomModel(modelId: string): CustomModel | undefined {
+  const slash = modelId.indexOf("/");
+  if (slash <= 0) return undefined;
+  const providerId = modelId.slice(0, slash);
+  const provider = getConfig().providers[providerId];
+  return provider ? { providerId, provider, model: modelId.slice(slash + 1) } : undefined;
+}
+
+// Bundled aliases, overridden and extended by config
+function getAliases(): Record<string, string> {
+  return { ...registry.aliases, ...getConfig().aliases };
+}
+
+/**
+ * Turn an alias such as "sonnet" into a model ID (other IDs are returned unchanged)
+ */
+export function resolveModelAlias(modelId: string): string {
+  return getAliases()[modelId] ?? modelId;
+}
+
+// Aliases that point at a model
+export function getModelAliases(modelId: string): string[] {
+  return Object.entries(getAliases())
+    .filter(([, target]) => target === modelId)
+    .map(([alias]) => alias);
+}
+
+function findProviderByPrefix(modelId: string): RegistryProvider | undefined {
+  return PROVIDERS.find((p) => p.prefixes.some((prefix) => modelId.startsWith(prefix)));
+}
+
+// Detect provider from model ID
+export function getProviderId(modelId: string): string {
+  const id = resolveModelAlias(modelId);
+  const custom = getCustomModel(id);
+  if (custom) return custom.providerId;
+  if (id.includes("/")) {
+    const name = id.split("/")[0];
+    throw new Error(
+      `Unknown provider "${name}" in model ${id}. Add it under "providers" in the config.`
+    );
+  }
+
+  const provider = getConfig().models[id]?.provider ?? findProviderByPrefix(id)?.id;
+  if (!provider) throw new Error(`Unknown model: ${id}`);
+  return provider;
+}
+
+// Apply a config entry on top of what the registry knows
+function applyConfig(info: ModelInfo, config: ModelConfig | undefined): ModelInfo {
+  if (!config) return info;
+  return {
+    ...info,
+    name: config.name ?? info.name,
+    description: config.description ?? info.description,
+    context: config.context ?? info.context,
+    output: config.output ?? info.output,
+    pricing: config.pricing ?? info.pricing,
+    capabilities: { ...info.capabilities, ...config.capabilities },
+  };
+}
+
+/**
+ * Look up a model (or alias) in the registry, the custom providers and the
+ * "models" config. Unlisted models of a known provider get its defaults.
+ */
+export function getModelInfo(modelId: string): ModelInfo {
+  const id = resolveModelAlias(modelId);
+  const providerId = getProviderId(id);
+  const configured = getConfig().models[id];
+
+  const custom = getCustomModel(id);
+  if (custom) {
+    const listed = custom.provider.models[custom.model];
+    return applyConfig(
+      {
+        id,
+        name: listed?.name ?? custom.model,
+        description: custom.provider.baseURL,
+        provider: providerId,
+        context: listed?.context ?? CUSTOM_DEFAULTS.context,
+        output: listed?.output ?? CUSTOM_DEFAULTS.output,
+        capabilities: CUSTOM_DEFAULTS.capabilities,
+      },
+      configured
+    );
+  }
+
+  const provider = PROVIDERS.find((p) => p.id === providerId);
+  const defaults = provider?.defaults ?? CUSTOM_DEFAULTS;
+  const model = provider?.models.find((m) => m.id === id);
+  return applyConfig(
+    {
+      id,
+      name: model?.name ?? id,
+      description: model?.description ?? "",
+      provider: providerId,
+      context: model?.context ?? defaults.context,
+      output: model?.output ?? defaults.output,
+      pricing: model?.pricing,
+      capabilities: { ...defaults.capabilities, ...model?.capabilities },
+    },
+    configured
+  );
+}
+
+// Get model limits with fallback defaults
+export function getModelLimits(modelId: string): ModelLimits {
+  const { context, output } = getModelInfo(modelId);
+  return { context, output };
+}
+
+// Get model pricing (undefined if the model's prices are unknown)
+export function getModelPricing(modelId: string): ModelPricing | undefined {
+  return getModelInfo(modelId).pricing;
+}
+
+/**
+ * All selectable models: bundled, added in config, then custom providers
+ */
+export function getAllModels(): Array<ModelInfo & { providerName: string }> {
+  const config = getConfig();
+  const providerName = (id: string): string => PROVIDERS.find((p) => p.id === id)?.name ?? id;
+
+  const ids = [
+    ...PROVIDERS.flatMap((p) => p.models.map((m) => m.id)),
+    ...Object.keys(config.models).filter((id) => !id.includes("/")),
+    ...Object.entries(config.providers).flatMap(([providerId, provider]) =>
+      Object.keys(provider.models).map((model) => `${providerId}/${model}`)
+    ),
+  ];
+
+  const models: Array<ModelInfo & { providerName: string }> = [];
+  for (const id of new Set(ids)) {
+    try {
+      const info = getModelInfo(id);
+      models.push({ ...info, providerName: providerName(info.provider) });
+    } catch {
+      // Config entries without a known provider cannot be used
+    }
+  }
+  return models;
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Every prompt is answered with this
+let answer = "always";
+
+vi.mock("readline", () => ({
+  createInterface: () => ({
+    question: (_prompt: string, callback: (text: string) => void) => callback(answer),
+    on: () => undefined,
+    close: () => undefined,
+  }),
+}));
+
+vi.mock("./config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./config.js")>()),
+  addProjectPermissionRule: vi.fn(async () => "/project/.karyo/config.json"),
+}));
+
+const { addProjectPermissionRule, getConfig } = await import("./config.js");
+const { checkPermission, findNonReadOnlyParts, generalizeRule, setInteractive } = await import(
+  "./permission.js"
+);
+
+const workingDir = "/project";
+
+describe("generalizeRule", () => {
+  it("keeps the subcommand of a command", () => {
+    expect(generalizeRule("bash", "npm test -- --watch", workingDir)).toBe("bash(npm test:*)");
+    expect(generalizeRule("bash", "make", workingDir)).toBe("bash(make:*)");
+  });
+
+  it("keeps dangerous commands exactly as approved", () => {
+    expect(generalizeRule("bash", "rm -rf build", workingDir)).toBe("bash(rm -rf build)");
+    expect(generalizeRule("bash", "git push origin main", workingDir)).toBe(
+      "bash(git push origin main)"
+    );
+  });
+
+  it("covers the directory of a path", () => {
+    expect(generalizeRule("edit", "/project/src/util/a.ts", workingDir)).toBe("edit(src/util/**)");
+    expect(generalizeRule("edit", "/project/README.md", workingDir)).toBe("edit(README.md)");
+  });
+
+  it("uses the tool name for MCP tools", () => {
+    expect(generalizeRule("mcp__docs__search", "{}", workingDir)).toBe("mcp__docs__search");
+  });
+});
+
+describe("checkPermission", () => {
+  const permissions = getConfig().permissions;
+  const saved = { ...permissions };
+
+  beforeEach(() => {
+    setInteractive(true);
+    answer = "always";
+    vi.mocked(addProjectPermissionRule).mockClear();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    Object.assign(permissions, saved);
+    vi.restoreAllMocks();
+  });
+
+  it("saves the generalized rule for \"always\"", async () => {
+    const result = await checkPermission({
+      tool: "edit",
+      subject: "/project/src/a.ts",
+      defaultDecision: "ask",
+      workingDir,
+    });
+    expect(result.allowed).toBe(true);
+    expect(addProjectPermissionRule).toHaveBeenCalledWith(workingDir, "allow", "edit(src/**)");
+  });
+
+  it("does not save \"always\" over a matching ask rule", async () => {
+    permissions.ask = ["bash(npm publish:*)"];
+    const result = await checkPermission({
+      tool: "bash",
+      subject: "npm publish",
+      defaultDecision: "allow",
+      workingDir,
+    });
+    expect(result.allowed).toBe(true);
+    expect(addProjectPermissionRule).not.toHaveBeenCalled();
+  });
+
+  it("lets deny rules win over hook approval", async () => {
+    permissions.deny = ["bash(rm:*)"];
+    const result = await checkPermission({
+      tool: "bash",
+      subject: "rm -rf /",
+      defaultDecision: "ask",
+      workingDir,
+      preApproved: true,
+    });
+    expect(result.allowed).toBe(false);
+  });
+
+  it("denies calls that need a prompt in non-interactive mode", async () => {
+    setInteractive(false);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const result = await checkPermission({
+      tool: "bash",
+      subject: "rm -rf build",
+      defaultDecision: "ask",
+      workingDir,
+    });
+    expect(result).toEqual({ allowed: false, message: "Permission denied (non-interactive mode)" });
+  });
+});
+
+describe("findNonReadOnlyParts", () => {
+  it.each([
+    "ls -la",
+    "git status && git log --oneline | head",
+    "git -C sub branch -a",
+    "git branch --contains HEAD",
+    "git remote -v",
+    "git remote show origin",
+    "sort -u names.txt",
+    "find . -name '*.ts'",
+    "command -v node",
+    "cat file > /dev/null",
+  ])("accepts %s", (command) => {
+    expect(findNonReadOnlyParts(command)).toEqual([]);
+  });
+
+  it.each([
+    "git branch -D feature",
+    "git branch -m old new",
+    "git branch feature",
+    "git remote add upstream url",
+    "git remote set-url origin url",
+    "git diff --output=patch.diff",
+    "sort -o sorted.txt names.txt",
+    "sort -uo sorted.txt names.txt",
+    "find . -name '*.tmp' -delete",
+    "find . -exec touch {} ;",
+    "tree -o tree.txt",
+    "date -s tomorrow",
+    "ls > files.txt",
+    "npm install",
+  ])("rejects %s", (command) => {
+    expect(findNonReadOnlyParts(command)).not.toEqual([]);
+  });
+});
@@ -1,47 +1,279 @@
 import * as readline from "readline";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { getConfig, addProjectPermissionRule } from "./config.js";
+import { MCP_TOOL_PREFIX, type PermissionDecision, type PermissionRule } from "./types.js";
+import { parseCommand, type SimpleCommand } from "./util/shell.js";
 
-// Patterns that require user confirmation
+// Patterns that require user confirmation, matched against each simple command
 const DANGEROUS_BASH_PATTERNS = [
-  /^rm\s/,
-  /^rm$/,
-  /\brm\s+-rf?\s/,
-  /\brmdir\b/,
-  /^sudo\s/,
-  /^su\s/,
-  /\bchmod\b/,
-  /\bchown\b/,
-  /\bgit\s+push\b/,
-  /\bgit\s+reset\s+--hard\b/,
-  /\bgit\s+clean\b/,
-  /\bdd\s/,
-  /\bmkfs\b/,
-  />\s*\/dev\//,
-  /\bkill\s+-9\b/,
-  /\bpkill\b/,
-  /\bshutdown\b/,
-  /\breboot\b/,
+  /^rm(\s|$)/,
+  /^rmdir(\s|$)/,
+  /^sudo(\s|$)/,
+  /^su(\s|$)/,
+  /^chmod(\s|$)/,
+  /^chown(\s|$)/,
+  /^git\s+push\b/,
+  /^git\s+reset\b.*\s--hard\b/,
+  /^git\s+clean\b/,
+  /^dd(\s|$)/,
+  /^mkfs\b/,
+  /^kill\s+(.*\s)?(-9|-kill|-sigkill|-s\s+(kill|sigkill|9))(\s|$)/,
+  /^pkill(\s|$)/,
+  /^killall(\s|$)/,
+  /^shutdown(\s|$)/,
+  /^reboot(\s|$)/,
 ];
 
-// Track patterns that user has approved for this session
-const approvedPatterns = new Set<string>();
+// Redirecting into a device is dangerous, except for these harmless ones
+const SAFE_DEVICE_TARGETS = /^\/dev\/(null|stdout|stderr|tty|fd\/\d+)$/;
+
+// Tools whose rule patterns match a command rather than a path
+const COMMAND_TOOLS = new Set(["bash"]);
+
+// Rules added during this session ("always" answers)
+const sessionRules: PermissionRule[] = [];
+
+// When false (headless mode), requests that need a prompt are denied
+let interactive = true;
+
+// Prompts from tools running in parallel (e.g. several sub-agents) wait their turn
+let promptQueue: Promise<unknown> = Promise.resolve();
+
+// Enable or disable interactive permission prompts
+export function setInteractive(value: boolean): void {
+  interactive = value;
+}
+
+// Drop git's global options so "git -C dir push" is checked like "git push"
+function stripGitGlobalOptions(words: string[]): string[] {
+  if (words[0] !== "git") return words;
+  let i = 1;
+  while (i < words.length && words[i].startsWith("-")) {
+    i += ["-C", "-c", "--git-dir", "--work-tree", "--namespace"].includes(words[i]) ? 2 : 1;
+  }
+  return ["git", ...words.slice(i)];
+}
+
+// Explain why a simple command is dangerous, or return null if it is not
+export function getDangerReason(part: SimpleCommand): string | null {
+  const text = stripGitGlobalOptions(part.words).join(" ").toLowerCase();
+  if (DANGEROUS_BASH_PATTERNS.some((pattern) => pattern.test(text))) {
+    return part.text;
+  }
+
+  for (const redirect of part.redirects) {
+    const target = redirect.split(" ").slice(1).join(" ");
+    if (/^[>&]/.test(redirect) && target.startsWith("/dev/") && !SAFE_DEVICE_TARGETS.test(target)) {
+      return `${part.text} ${redirect}`.trim();
+    }
+  }
+
+  return null;
+}
+
+// Find the parts of a bash command line that are dangerous
+export function findDangerousParts(command: string): string[] {
+  return parseCommand(command)
+    .map(getDangerReason)
+    .filter((reason): reason is string => reason !== null);
+}
 
 // Check if a bash command is dangerous
 export function isDangerousCommand(command: string): boolean {
-  const trimmed = command.trim().toLowerCase();
-  return DANGEROUS_BASH_PATTERNS.some((pattern) => pattern.test(trimmed));
+  return findDangerousParts(command).length > 0;
 }
 
-// Ask user for permission
-export async function askPermission(
-  action: string,
-  details: string
-): Promise<boolean> {
-  // Check if already approved
-  const key = `${action}:${details}`;
-  if (approvedPatterns.has(key)) {
-    return true;
+// git branch options that create, delete, rename or configure branches
+const GIT_BRANCH_WRITE_OPTIONS =
+  /^(-[a-z]*[dDmMcCfu]|--delete|--move|--copy|--force|--set-upstream-to|--unset-upstream|--edit-description|--track|--no-track)/;
+
+// git branch options after which names are filters, not branches to create
+const GIT_BRANCH_LIST_OPTIONS =
+  /^(-[a-z]*[lar]|--list|--all|--remotes|--contains|--no-contains|--merged|--no-merged|--points-at)/;
+
+// Arguments that make an otherwise read-only command write (words without git's global options)
+function writesDespiteReadOnly(words: string[]): boolean {
+  const [command, subcommand] = words;
+  const args = words.slice(1);
+  if (args.some((w) => w === "--output" || w.startsWith("--output="))) return true;
+
+  switch (command) {
+    case "find":
+      // find can delete or write files and run commands
+      return args.some((w) => /^-(delete|fprint|fls|exec|ok)/.test(w));
+    case "sort":
+    case "tree":
+      // -o writes the output to a file
+      return args.some((w) => /^-[a-zA-Z]*o/.test(w));
+    case "date":
+      // -s sets the clock
+      return args.some((w) => /^-[a-zA-Z]*s/.test(w) || w.startsWith("--set"));
+    case "git":
+      if (subcommand === "branch") {
+        const options = words.slice(2);
+        if (options.some((w) => GIT_BRANCH_WRITE_OPTIONS.test(w))) return true;
+        // "git branch name" creates a branch
+        return (
+          options.some((w) => !w.startsWith("-")) &&
+          !options.some((w) => GIT_BRANCH_LIST_OPTIONS.test(w))
+        );
+      }
+      if (subcommand === "remote") {
+        // Everything but listing, "show" and "get-url" changes remotes
+        const action = words.slice(2).find((w) => !w.startsWith("-"));
+        return action !== undefined && action !== "show" && action !== "get-url";
+      }
+      return false;
+    default:
+      return false;
+  }
+}
+
+// Find the parts of a command line that are not read-only (for plan mode)
+export function findNonReadOnlyParts(command: string): string[] {
+  const readOnly = getConfig().tools.bash.readOnlyCommands;
+  return parseCommand(command)
+    .filter((part) => {
+      const text = stripGitGlobalOptions(part.words).join(" ");
+      const listed = readOnly.some((prefix) => text === prefix || text.startsWith(prefix + " "));
+      const writesArgs = writesDespiteReadOnly(stripGitGlobalOptions(part.words));
+      // Output redirected to a file
+      const writesFile = part.redirects.some(
+        (r) => /^(>|>>|>\||&>|&>>) /.test(r) && !SAFE_DEVICE_TARGETS.test(r.split(" ")[1])
+      );
+      return !listed || writesArgs || writesFile;
+    })
+    .map((part) => part.text);
+}
+
+// Parse "tool" or "tool(pattern)" into a rule
+export function parseRule(
+  text: string,
+  decision: PermissionDecision,
+  source: PermissionRule["source"]
+): PermissionRule {
+  const match = text.trim().match(/^([\w-]+)(?:\((.+)\))?$/);
+  if (!match) {
+    throw new Error(`Invalid permission rule: "${text}"`);
+  }
+  return { tool: match[1], pattern: match[2], decision, source };
+}
+
+// Format a rule back to its text form
+export function formatRule(rule: PermissionRule): string {
+  return rule.pattern ? `${rule.tool}(${rule.pattern})` : rule.tool;
+}
+
+// All active rules from config and the current session
+export function getRules(): PermissionRule[] {
+  const { permissions } = getConfig();
+  const rules: PermissionRule[] = [];
+  for (const decision of ["deny", "ask", "allow"] as const) {
+    for (const text of permissions[decision]) {
+      rules.push(parseRule(text, decision, "config"));
+    }
+  }
+  return [...rules, ...sessionRules];
+}
+
+// Convert a path subject to the form rule patterns are written against
+function toRuleSubject(subject: string, workingDir: string): string {
+  const resolved = path.resolve(workingDir, subject);
+  const relative = path.relative(workingDir, resolved);
+  // Paths outside the working directory are matched as absolute paths
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return relative ? resolved.split(path.sep).join("/") : ".";
+  }
+  return relative.split(path.sep).join("/");
+}
+
+// Check whether a rule matches a tool call subject
+function ruleMatches(
+  rule: PermissionRule,
+  tool: string,
+  subject: string,
+  workingDir: string
+): boolean {
+  // MCP tools match by name only; "mcp__server" covers all of that server's tools
+  if (tool.startsWith(MCP_TOOL_PREFIX)) {
+    return !rule.pattern && (rule.tool === tool || tool.startsWith(rule.tool + "__"));
+  }
+
+  if (rule.tool !== tool) return false;
+  if (!rule.pattern) return true;
+
+  if (COMMAND_TOOLS.has(tool)) {
+    const command = subject.trim();
+    // "npm test:*" matches "npm test" and anything starting with "npm test "
+    if (rule.pattern.endsWith(":*")) {
+      const prefix = rule.pattern.slice(0, -2).trim();
+      return command === prefix || command.startsWith(prefix + " ");
+    }
+    return command === rule.pattern.trim();
+  }
+
+  const ruleSubject = toRuleSubject(subject, workingDir);
+  return (
+    minimatch(ruleSubject, rule.pattern, { dot: true }) ||
+    // Let "src/**" also cover the "src" directory itself
+    minimatch(ruleSubject + "/", rule.pattern, { dot: true })
+  );
+}
+
+/**
+ * Find the rule decision for a tool call.
+ * Precedence: any matching deny wins, then ask, then allow.
+ */
+export function evaluatePermission(
+  tool: string,
+  subject: string,
+  workingDir: string
+): { decision: PermissionDecision; rule: PermissionRule } | undefined {
+  const matching = getRules().filter((rule) => ruleMatches(rule, tool, subject, workingDir));
+  for (const decision of ["deny", "ask", "allow"] as const) {
+    const rule = matching.find((r) => r.decision === decision);
+    if (rule) return { decision, rule };
+  }
+  return undefined;
+}
+
+// Build a reusable rule from a specific tool call (for "always" answers)
+export function generalizeRule(tool: string, subject: string, workingDir: string): string {
+  if (tool.startsWith(MCP_TOOL_PREFIX)) return tool;
+
+  if (COMMAND_TOOLS.has(tool)) {
+    // Dangerous commands are only allowed exactly as approved
+    if (isDangerousCommand(subject)) return `${tool}(${subject.trim()})`;
+    const words = subject.trim().split(/\s+/);
+    // Keep a subcommand like "npm test" or "git status"; drop flags and paths
+    const prefix =
+      words.length > 1 && /^[a-z][\w-]*$/i.test(words[1]) ? words.slice(0, 2) : words.slice(0, 1);
+    return `${tool}(${prefix.join(" ")}:*)`;
   }
 
+  const ruleSubject = toRuleSubject(subject, workingDir);
+  if (ruleSubject === ".") return `${tool}(**)`;
+  const dir = path.posix.dirname(ruleSubject);
+  return dir === "." ? `${tool}(${ruleSubject})` : `${tool}(${dir}/**)`;
+}
+
+// Ask the user a permission question, one prompt at a time
+function promptUser(
+  action: string,
+  details: string,
+  alwaysHint = ""
+): Promise<"yes" | "no" | "always"> {
+  const answer = promptQueue.then(() => readAnswer(action, details, alwaysHint));
+  promptQueue = answer;
+  return answer;
+}
+
+function readAnswer(
+  action: string,
+  details: string,
+  alwaysHint: string
+): Promise<"yes" | "no" | "always"> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -53,6 +285,13 @@ export async function askPermission(
     console.log("-".repeat(60));
     console.log(details);
     console.log("=".repeat(60));
+    if (alwaysHint) console.log(alwaysHint);
+
+    // Ctrl+C (which also interrupts the turn) denies
+    rl.on("SIGINT", () => {
+      rl.close();
+      resolve("no");
+    });
 
     rl.question("Allow? [y/N/always] ", (answer) => {
       rl.close();
@@ -60,20 +299,162 @@ export async function askPermission(
       const normalized = answer.trim().toLowerCase();
 
       if (normalized === "y" || normalized === "yes") {
-        resolve(true);
+        resolve("yes");
       } else if (normalized === "always" || normalized === "a") {
-        approvedPatterns.add(key);
-        console.log("(Approved for this session)");
-        resolve(true);
+        resolve("always");
       } else {
         console.log("(Denied)");
-        resolve(false);
+        resolve("no");
+      }
+    });
+  });
+}
+
+// Ask the user to approve something; any answer other than yes is returned as feedback
+export async function askApproval(
+  title: string,
+  details: string
+): Promise<{ approved: boolean; feedback?: string }> {
+  if (!interactive) {
+    return { approved: false, feedback: "Cannot ask for approval in non-interactive mode" };
+  }
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    console.log("\n" + "=".repeat(60));
+    console.log(title);
+    console.log("-".repeat(60));
+    console.log(details);
+    console.log("=".repeat(60));
+
+    rl.on("SIGINT", () => {
+      rl.close();
+      resolve({ approved: false });
+    });
+
+    rl.question("Approve? [y/N, or type feedback] ", (answer) => {
+      rl.close();
+
+      const normalized = answer.trim().toLowerCase();
+      if (normalized === "y" || normalized === "yes") {
+        resolve({ approved: true });
+      } else {
+        console.log("(Not approved)");
+        const isPlainNo = !normalized || normalized === "n" || normalized === "no";
+        resolve({ approved: false, feedback: isPlainNo ? undefined : answer.trim() });
       }
     });
   });
 }
 
-// Reset approved patterns (useful for testing)
-export function resetApprovedPatterns(): void {
-  approvedPatterns.clear();
+export interface PermissionPart {
+  // What the rules match against: a command for bash, a path for file tools
+  subject: string;
+  // What to do when no rule matches
+  defaultDecision: PermissionDecision;
+}
+
+export interface PermissionCheck extends PermissionPart {
+  tool: string;
+  // Shown in the prompt (defaults to the subject)
+  details?: string;
+  // Check these separately instead of the whole subject (e.g. each command in a pipeline)
+  parts?: PermissionPart[];
+  workingDir: string;
+  // Approved by a hook: run without asking (deny rules still apply)
+  preApproved?: boolean;
+}
+
+export interface PermissionResult {
+  allowed: boolean;
+  // Explanation for the model when the call is not allowed
+  message?: string;
+}
+
+/**
+ * Decide whether a tool call may run, consulting rules and
+ * prompting the user when needed.
+ */
+export async function checkPermission(check: PermissionCheck): Promise<PermissionResult> {
+  const { tool, workingDir } = check;
+  const parts = check.parts && check.parts.length > 0 ? check.parts : [check];
+
+  // Every part must be allowed; any denied part denies the whole call
+  const asking: string[] = [];
+  // Ask rules that matched; "always" can't override them
+  const askRules: string[] = [];
+  for (const part of parts) {
+    let matched = evaluatePermission(tool, part.subject, workingDir);
+    // A custom command's allowed-tools can't approve commands that would ask (e.g. dangerous ones)
+    const fromCommand = matched?.rule.source === "command" && COMMAND_TOOLS.has(tool);
+    if (fromCommand && part.defaultDecision === "ask") matched = undefined;
+    const decision = matched?.decision ?? part.defaultDecision;
+
+    if (decision === "deny") {
+      const reason = matched ? ` by rule ${formatRule(matched.rule)}` : "";
+      const where = parts.length > 1 ? ` (${part.subject})` : "";
+      return { allowed: false, message: `Permission denied${reason}${where}` };
+    }
+
+    if (decision === "ask") {
+      if (matched) askRules.push(formatRule(matched.rule));
+      else asking.push(part.subject);
+    }
+  }
+
+  if ((asking.length === 0 && askRules.length === 0) || check.preApproved) {
+    return { allowed: true };
+  }
+
+  if (!interactive) {
+    console.error(`Permission denied (non-interactive): ${tool}`);
+    return { allowed: false, message: "Permission denied (non-interactive mode)" };
+  }
+
+  const suggested = [...new Set(asking.map((s) => generalizeRule(tool, s, workingDir)))];
+  const hints: string[] = [];
+  if (suggested.length > 0) {
+    hints.push(`"always" allows ${suggested.join(", ")} and saves it to the project config`);
+  }
+  if (askRules.length > 0) {
+    const rules = [...new Set(askRules)].join(", ");
+    hints.push(`${rules} always asks, so "always" can't approve ${askRules.length > 1 ? "them" : "it"} for later`);
+  }
+  const answer = await promptUser(tool, check.details ?? check.subject, `(${hints.join("; ")})`);
+
+  if (answer === "no") {
+    return { allowed: false, message: "Permission denied by user" };
+  }
+
+  if (answer === "always") {
+    for (const rule of suggested) {
+      sessionRules.push(parseRule(rule, "allow", "session"));
+      try {
+        const filePath = await addProjectPermissionRule(workingDir, "allow", rule);
+        console.log(`(Saved ${rule} to ${filePath})`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(`(Allowed ${rule} for this session; could not save: ${message})`);
+      }
+    }
+  }
+
+  return { allowed: true };
+}
+
+// Add allow rules for a limited time (e.g. a custom command's allowed-tools).
+// Returns a function that removes them again.
+export function addTemporaryRules(rules: string[]): () => void {
+  const added = rules.map((rule) => parseRule(rule, "allow", "command"));
+  sessionRules.push(...added);
+  return () => {
+    for (const rule of added) {
+      const index = sessionRules.indexOf(rule);
+      if (index !== -1) sessionRules.splice(index, 1);
+    }
+  };
 }
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { APICallError, type LanguageModelV1CallOptions } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+
+// getModel returns this model for every fallback
+const fallback = new MockLanguageModelV1({
+  doGenerate: vi.fn(async () => ({
+    text: "ok",
+    finishReason: "stop" as const,
+    usage: { promptTokens: 1, completionTokens: 1 },
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  })),
+});
+
+vi.mock("./agent.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./agent.js")>()),
+  getModel: vi.fn(async () => fallback),
+}));
+
+const { getConfig } = await import("./config.js");
+const { withFallback } = await import("./retry.js");
+
+const PRIMARY = "claude-sonnet-4-20250514";
+
+// A primary model that stays overloaded
+const overloaded = new MockLanguageModelV1({
+  doGenerate: async () => {
+    throw new APICallError({
+      message: "Overloaded",
+      url: "https://api.example/v1",
+      requestBodyValues: {},
+      statusCode: 529,
+      isRetryable: true,
+    });
+  },
+});
+
+const request: LanguageModelV1CallOptions = {
+  inputFormat: "messages",
+  mode: { type: "regular" },
+  prompt: [
+    { role: "system", content: "Be brief." },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "What is this?" },
+        { type: "image", image: new Uint8Array([1, 2, 3]), mimeType: "image/png" },
+      ],
+    },
+  ],
+  maxTokens: 4000,
+  temperature: 0.5,
+};
+
+// What the fallback model was sent
+async function sendThroughFallback(fallbackId: string): Promise<LanguageModelV1CallOptions> {
+  getConfig().fallbackModels = [fallbackId];
+  const chain = withFallback(overloaded, PRIMARY);
+  await chain.model.doGenerate(request);
+  expect(chain.modelId).toBe(fallbackId);
+  return vi.mocked(fallback.doGenerate).mock.calls[0][0];
+}
+
+beforeEach(() => {
+  getConfig().retry.maxRetries = 0;
+  vi.mocked(fallback.doGenerate).mockClear();
+});
+
+afterEach(() => {
+  getConfig().fallbackModels = [];
+  getConfig().models = {};
+});
+
+describe("withFallback", () => {
+  it("adapts the request to what the fallback model accepts", async () => {
+    getConfig().models["plain-model"] = {
+      provider: "openai",
+      output: 1000,
+      capabilities: { systemPrompt: false, images: false, temperature: false },
+    };
+
+    const sent = await sendThroughFallback("plain-model");
+    expect(sent.prompt).toEqual([
+      { role: "user", content: [{ type: "text", text: "Be brief." }] },
+      {
+        role: "assistant",
+        content: [{ type: "text", text: "Understood. I will follow these instructions." }],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "text", text: "[image omitted: the model does not accept images]" },
+        ],
+      },
+    ]);
+    expect(sent.maxTokens).toBe(1000);
+    expect(sent.temperature).toBeUndefined();
+  });
+
+  it("sends the request unchanged to a fallback model that accepts it", async () => {
+    getConfig().models["full-model"] = { provider: "openai", output: 8000 };
+
+    const sent = await sendThroughFallback("full-model");
+    expect(sent.prompt).toEqual(request.prompt);
+    expect(sent.maxTokens).toBe(4000);
+    expect(sent.temperature).toBe(0.5);
+  });
+});
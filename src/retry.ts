@@ -0,0 +1,275 @@
+import {
+  APICallError,
+  wrapLanguageModel,
+  type LanguageModel,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from "ai";
+import { adaptCallOptions, getModel } from "./agent.js";
+import { getConfig } from "./config.js";
+import { getModelInfo, resolveModelAlias } from "./models.js";
+import { estimateTokens } from "./util/token.js";
+
+// A failed request that is about to be retried
+export interface RetryNotice {
+  modelId: string;
+  // 1 for the first retry
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+// The chain moved on to the next model
+export interface FallbackNotice {
+  from: string;
+  to: string;
+  reason: string;
+  // Fallback models passed over, with the reason
+  skipped: string[];
+}
+
+// A model with retries and fallbacks
+export interface ModelChain {
+  model: LanguageModel;
+  // Registry ID of the model that currently serves requests
+  readonly modelId: string;
+}
+
+// Error types of failures reported inside a stream (Anthropic, OpenAI)
+const RETRYABLE_STREAM_ERRORS = ["overloaded_error", "rate_limit_error", "api_error", "server_error"];
+
+/**
+ * True for failures that may go away by themselves: rate limits, overload,
+ * server errors and dropped connections
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) return error.isRetryable;
+  if (error instanceof Error) return error.cause !== undefined && isRetryableError(error.cause);
+  const type = (error as { type?: unknown } | null)?.type;
+  return typeof type === "string" && RETRYABLE_STREAM_ERRORS.includes(type);
+}
+
+// "Overloaded (529)"
+function describeError(error: unknown): string {
+  if (APICallError.isInstance(error) && error.statusCode !== undefined) {
+    return `${error.message} (${error.statusCode})`;
+  }
+  if (error instanceof Error) return error.message;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" ? message : String(error);
+}
+
+// Wait the server asked for (ms), from retry-after-ms or retry-after (seconds or a date)
+function getRetryAfter(error: unknown): number | undefined {
+  if (!APICallError.isInstance(error) || !error.responseHeaders) return undefined;
+  const headers = error.responseHeaders;
+
+  const ms = Number(headers["retry-after-ms"]);
+  if (headers["retry-after-ms"] && Number.isFinite(ms)) return Math.max(0, ms);
+
+  const value = headers["retry-after"];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number attempt + 1 (ms), or undefined to give up.
+ * Exponential backoff with jitter, unless the server sent retry-after.
+ */
+export function getRetryDelay(error: unknown, attempt: number): number | undefined {
+  const { maxRetries, initialDelay, maxDelay } = getConfig().retry;
+  if (attempt >= maxRetries || !isRetryableError(error)) return undefined;
+
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    // Waiting longer than that is worse than falling back
+    return retryAfter <= maxDelay ? retryAfter : undefined;
+  }
+
+  const backoff = Math.min(maxDelay, initialDelay * 2 ** attempt);
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Run a request until it succeeds or retrying no longer makes sense
+async function callWithRetry<T>(
+  modelId: string,
+  call: () => PromiseLike<T>,
+  signal: AbortSignal | undefined,
+  onRetry?: (notice: RetryNotice) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const delayMs = getRetryDelay(error, attempt);
+      if (delayMs === undefined || signal?.aborted) throw error;
+      onRetry?.({
+        modelId,
+        attempt: attempt + 1,
+        maxRetries: getConfig().retry.maxRetries,
+        delayMs,
+        reason: describeError(error),
+      });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+type StreamResult = Awaited<ReturnType<LanguageModel["doStream"]>>;
+
+// Overload errors can also arrive as the first event of a stream (Anthropic).
+// Wait for the first content so they are retried like failed requests.
+async function checkStreamStart(result: StreamResult): Promise<StreamResult> {
+  const reader = result.stream.getReader();
+  const buffered: LanguageModelV1StreamPart[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value.type === "error" && isRetryableError(value.error)) {
+      reader.cancel().catch(() => undefined);
+      throw new Error(describeError(value.error), { cause: value.error });
+    }
+    buffered.push(value);
+    if (value.type !== "response-metadata") break;
+  }
+
+  const stream = new ReadableStream<LanguageModelV1StreamPart>({
+    start(controller) {
+      for (const part of buffered) controller.enqueue(part);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return { ...result, stream };
+}
+
+// Why a fallback model cannot take the request (undefined if it can)
+function checkFallback(params: LanguageModelV1CallOptions, modelId: string): string | undefined {
+  let info;
+  try {
+    info = getModelInfo(modelId);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const hasTools = params.mode.type === "regular" && (params.mode.tools?.length ?? 0) > 0;
+  if (hasTools && !info.capabilities.tools) return "no tool support";
+  if (estimateTokens(JSON.stringify(params.prompt)) > info.context) return "context too small";
+  return undefined;
+}
+
+/**
+ * Wrap a model with retries (exponential backoff, retry-after) and the
+ * configured fallback models. When a model stays unavailable, the request
+ * and all later ones in the chain go to the next fallback that can take it;
+ * the conversation is only reshaped to what that model accepts (see
+ * adaptCallOptions), so it stays consistent.
+ */
+export function withFallback(
+  model: LanguageModel,
+  modelId: string,
+  options: {
+    onRetry?: (notice: RetryNotice) => void;
+    onFallback?: (notice: FallbackNotice) => void;
+  } = {}
+): ModelChain {
+  const chain = [
+    modelId,
+    ...getConfig()
+      .fallbackModels.map(resolveModelAlias)
+      .filter((id) => id !== modelId),
+  ];
+  const models = new Map<string, LanguageModel>([[modelId, model]]);
+  let active = 0;
+
+  // Find the next model that can take the request
+  const nextFallback = async (
+    params: LanguageModelV1CallOptions,
+    skipped: string[]
+  ): Promise<number | undefined> => {
+    for (let i = active + 1; i < chain.length; i++) {
+      const id = chain[i];
+      let reason = checkFallback(params, id);
+      if (!reason && !models.has(id)) {
+        try {
+          models.set(id, await getModel(id));
+        } catch (error) {
+          reason = error instanceof Error ? error.message : String(error);
+        }
+      }
+      if (!reason) return i;
+      skipped.push(`${id} (${reason})`);
+    }
+    return undefined;
+  };
+
+  const run = async <T>(
+    params: LanguageModelV1CallOptions,
+    call: (model: LanguageModel, params: LanguageModelV1CallOptions) => PromiseLike<T>
+  ): Promise<T> => {
+    for (;;) {
+      const id = chain[active];
+      const current = models.get(id) ?? model;
+      try {
+        return await callWithRetry(
+          id,
+          () => call(current, active === 0 ? params : adaptCallOptions(params, id)),
+          params.abortSignal,
+          options.onRetry
+        );
+      } catch (error) {
+        if (!isRetryableError(error) || params.abortSignal?.aborted) throw error;
+
+        const skipped: string[] = [];
+        const next = await nextFallback(params, skipped);
+        if (next === undefined) throw error;
+        options.onFallback?.({ from: id, to: chain[next], reason: describeError(error), skipped });
+        active = next;
+      }
+    }
+  };
+
+  const wrapped = wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ params }) => run(params, (m, p) => m.doGenerate(p)),
+      wrapStream: async ({ params }) =>
+        run(params, async (m, p) => checkStreamStart(await m.doStream(p))),
+    },
+  });
+
+  return {
+    model: wrapped,
+    get modelId() {
+      return chain[active];
+    },
+  };
+}
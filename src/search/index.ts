@@ -0,0 +1,70 @@
+import * as path from "path";
+import { glob } from "glob";
+import { getConfig } from "../config.js";
+import { findRipgrep, ripgrepFiles, ripgrepSearch } from "./ripgrep.js";
+import { scanSearch } from "./scan.js";
+import type { Match } from "./match.js";
+
+export type { Match } from "./match.js";
+
+// A content search
+export interface GrepQuery {
+  pattern: string;
+  // Directory to search (absolute)
+  dir: string;
+  // Glob of files to search; patterns without "/" match file names at any depth
+  include?: string;
+  // Only files with one of these extensions
+  extensions?: string[];
+  caseInsensitive: boolean;
+  multiline: boolean;
+  signal?: AbortSignal;
+}
+
+// Matches in one file
+export interface FileMatches {
+  file: string;
+  matches: Match[];
+  // Number of lines with a match
+  count: number;
+}
+
+export interface GrepResult {
+  // Files with matches, sorted by path
+  files: FileMatches[];
+  // The search stopped early at tools.search.maxCount matches
+  truncated: boolean;
+  // Files skipped because the regex took longer than tools.search.regexTimeout on them
+  timedOut: string[];
+}
+
+/**
+ * Search file contents with ripgrep when it is available and accepts the
+ * pattern, otherwise with the built-in scanner. Both search hidden files, skip
+ * binary files, files over tools.grep.maxFileSize and the ignored patterns, and
+ * stop early after tools.search.maxCount matches.
+ */
+export async function grepFiles(query: GrepQuery): Promise<GrepResult> {
+  const rg = await findRipgrep();
+  const result = rg ? await ripgrepSearch(rg, query) : undefined;
+  const { files, truncated, timedOut } = result ?? (await scanSearch(query));
+  return {
+    files: files.sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0)),
+    truncated,
+    timedOut,
+  };
+}
+
+/**
+ * Files matching a glob, as absolute paths (ignored directories left out,
+ * hidden files included). Uses ripgrep's file walker when it is available.
+ */
+export async function listFiles(pattern: string, dir: string): Promise<string[]> {
+  const ignore = getConfig().tools.ignore;
+  const rg = await findRipgrep();
+  // rg globs can't reach outside the directory
+  if (rg && !path.isAbsolute(pattern) && !pattern.startsWith("..")) {
+    return ripgrepFiles(rg, pattern.replace(/^\.\//, ""), dir, ignore);
+  }
+  return glob(pattern, { cwd: dir, absolute: true, nodir: true, dot: true, ignore });
+}
@@ -0,0 +1,61 @@
+// A match, spanning several lines in multiline mode (1-based)
+export interface Match {
+  line: number;
+  endLine: number;
+}
+
+// Leading bytes checked for NUL bytes, as git and ripgrep do
+const BINARY_CHECK_BYTES = 8000;
+
+// Whether file contents look binary
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, BINARY_CHECK_BYTES).includes(0);
+}
+
+// Add a match, joining it with the previous one if their lines overlap
+export function addMatch(matches: Match[], line: number, endLine: number): void {
+  const last = matches[matches.length - 1];
+  if (last && line <= last.endLine) last.endLine = Math.max(last.endLine, endLine);
+  else matches.push({ line, endLine });
+}
+
+// Lines covered by matches
+export function countLines(matches: Match[]): number {
+  return matches.reduce((sum, m) => sum + m.endLine - m.line + 1, 0);
+}
+
+/**
+ * Find all matches in a file's content. Without multiline the regex is tested
+ * line by line; with it, the regex must have the g flag and runs on the whole content.
+ */
+export function searchContent(content: string, regex: RegExp, multiline: boolean): Match[] {
+  const matches: Match[] = [];
+
+  if (!multiline) {
+    const lines = content.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (regex.test(lines[i])) matches.push({ line: i + 1, endLine: i + 1 });
+    }
+    return matches;
+  }
+
+  // Line number of a position, counting forward from the previous match
+  let line = 1;
+  let counted = 0;
+  const lineAt = (index: number): number => {
+    for (; counted < index; counted++) {
+      if (content.charCodeAt(counted) === 10) line++;
+    }
+    return line;
+  };
+
+  regex.lastIndex = 0;
+  for (let m = regex.exec(content); m; m = regex.exec(content)) {
+    const start = lineAt(m.index);
+    // A match ending in a newline ends on that line
+    const end = m[0].length > 0 ? lineAt(m.index + m[0].length - 1) : start;
+    addMatch(matches, start, end);
+    if (m[0].length === 0) regex.lastIndex++;
+  }
+  return matches;
+}
@@ -0,0 +1,194 @@
+import { spawn } from "child_process";
+import { createInterface } from "readline";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { getConfig } from "../config.js";
+import { addMatch, countLines, type Match } from "./match.js";
+import type { GrepQuery, GrepResult } from "./index.js";
+
+// Lines of rg --json output this module reads
+interface RipgrepMatch {
+  type: "match";
+  data: {
+    // Paths and lines that aren't valid UTF-8 come as { bytes } instead
+    path: { text?: string };
+    lines: { text?: string };
+    line_number: number;
+  };
+}
+
+let located: Promise<string | undefined> | undefined;
+
+// Bundled binary of the optional @vscode/ripgrep package, then rg on PATH
+async function locateRipgrep(): Promise<string | undefined> {
+  try {
+    // Throws when the optional binary package for this platform isn't installed
+    const { rgPath } = await import("@vscode/ripgrep");
+    await fs.access(rgPath, fs.constants.X_OK);
+    return rgPath;
+  } catch {
+    // Not installed
+  }
+
+  const name = process.platform === "win32" ? "rg.exe" : "rg";
+  for (const dir of (process.env.PATH ?? "").split(path.delimiter)) {
+    if (!dir) continue;
+    try {
+      await fs.access(path.join(dir, name), fs.constants.X_OK);
+      return path.join(dir, name);
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The ripgrep binary to use (per tools.search.ripgrep), or undefined for the
+ * built-in scanner
+ */
+export function findRipgrep(): Promise<string | undefined> {
+  const setting = getConfig().tools.search.ripgrep;
+  if (setting === false) return Promise.resolve(undefined);
+  if (setting !== "auto") return Promise.resolve(setting);
+  located ??= locateRipgrep();
+  return located;
+}
+
+// Run rg in a directory, passing each output line to onLine until it returns false.
+// Globs with a "/" are relative to rg's working directory.
+function runRipgrep(
+  rg: string,
+  args: string[],
+  cwd: string,
+  onLine: (line: string) => boolean,
+  signal?: AbortSignal
+): Promise<{ code: number | null; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(rg, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    let stderr = "";
+    let stopped = false;
+
+    const stop = (): void => {
+      if (stopped) return;
+      stopped = true;
+      proc.kill();
+    };
+    signal?.addEventListener("abort", stop, { once: true });
+
+    createInterface({ input: proc.stdout }).on("line", (line) => {
+      if (!stopped && !onLine(line)) stop();
+    });
+    proc.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    proc.on("error", (error) => {
+      signal?.removeEventListener("abort", stop);
+      reject(error);
+    });
+    proc.on("close", (code) => {
+      signal?.removeEventListener("abort", stop);
+      resolve({ code: stopped ? 0 : code, stderr });
+    });
+  });
+}
+
+/**
+ * Search with ripgrep. Returns undefined if rg can't run the search, e.g.
+ * for look-around and backreferences, which its regex engine doesn't support.
+ */
+export async function ripgrepSearch(rg: string, query: GrepQuery): Promise<GrepResult | undefined> {
+  const config = getConfig().tools;
+  const extensions = query.extensions && new Set(query.extensions);
+
+  const args = [
+    "--json",
+    "--no-config",
+    "--no-ignore",
+    "--hidden",
+    "--max-filesize",
+    String(config.grep.maxFileSize),
+    query.caseInsensitive ? "--ignore-case" : "--case-sensitive",
+  ];
+  if (query.multiline) args.push("--multiline", "--multiline-dotall");
+  // Globs are alternatives, so extensions are checked here when there is an include glob
+  if (query.include) args.push("--glob", query.include);
+  else for (const ext of query.extensions ?? []) args.push("--iglob", `*${ext}`);
+  for (const pattern of [...config.ignore, ...config.grep.ignore]) args.push("--glob", `!${pattern}`);
+  args.push("--regexp", query.pattern, "--", ".");
+
+  const files = new Map<string, Match[]>();
+  let count = 0;
+  let truncated = false;
+
+  const { code, stderr } = await runRipgrep(
+    rg,
+    args,
+    query.dir,
+    (line) => {
+      let message: RipgrepMatch | { type?: string };
+      try {
+        message = JSON.parse(line) as RipgrepMatch | { type?: string };
+      } catch {
+        return true;
+      }
+      if (message.type !== "match") return true;
+      const { data } = message as RipgrepMatch;
+      if (data.path.text === undefined) return true;
+
+      const file = path.resolve(query.dir, data.path.text);
+      if (extensions && !extensions.has(path.extname(file).toLowerCase())) return true;
+
+      const lineCount = (data.lines.text ?? "").replace(/\n$/, "").split("\n").length;
+      const matches = files.get(file) ?? [];
+      files.set(file, matches);
+      addMatch(matches, data.line_number, data.line_number + lineCount - 1);
+
+      if (++count < config.search.maxCount) return true;
+      truncated = true;
+      return false;
+    },
+    query.signal
+  );
+
+  // 1 means no matches; 2 means errors, which are fine if only some files were unreadable
+  if (code === 2 && files.size === 0) return undefined;
+  if (code !== 0 && code !== 1 && code !== 2) {
+    throw new Error(stderr.trim() || `ripgrep exited with code ${code}`);
+  }
+
+  return {
+    files: [...files].map(([file, matches]) => ({ file, matches, count: countLines(matches) })),
+    truncated,
+    timedOut: [],
+  };
+}
+
+/**
+ * List files matching a glob with ripgrep's file walker. The glob is also
+ * given to rg to narrow the walk, then applied with glob semantics. Like the
+ * glob fallback, hidden files and directories are included.
+ */
+export async function ripgrepFiles(
+  rg: string,
+  pattern: string,
+  dir: string,
+  ignore: string[]
+): Promise<string[]> {
+  const args = ["--files", "--no-config", "--no-ignore", "--hidden", "--glob", pattern];
+  for (const ignored of ignore) args.push("--glob", `!${ignored}`);
+  args.push("--", ".");
+
+  const files: string[] = [];
+  const { code, stderr } = await runRipgrep(rg, args, dir, (line) => {
+    const file = path.resolve(dir, line);
+    const relative = path.relative(dir, file).split(path.sep).join("/");
+    if (minimatch(relative, pattern, { dot: true })) files.push(file);
+    return true;
+  });
+  if (code !== 0 && code !== 1 && !(code === 2 && files.length > 0)) {
+    throw new Error(stderr.trim() || `ripgrep exited with code ${code}`);
+  }
+  return files;
+}
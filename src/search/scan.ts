@@ -0,0 +1,257 @@
+import { Worker } from "worker_threads";
+import * as os from "os";
+import * as path from "path";
+import { createRequire } from "module";
+import { fileURLToPath, pathToFileURL } from "url";
+import { globIterate } from "glob";
+import { getConfig } from "../config.js";
+import { countLines, type Match } from "./match.js";
+import type { WorkerBatch, WorkerQuery, WorkerReply } from "./worker.js";
+import type { FileMatches, GrepQuery, GrepResult } from "./index.js";
+
+// Files handed to a worker at a time
+const BATCH_SIZE = 32;
+
+// Extensions skipped without reading the file
+const BINARY_EXTENSIONS = new Set([
+  ".png", ".jpg", ".jpeg", ".gif", ".bmp", ".ico", ".webp",
+  ".pdf", ".zip", ".tar", ".gz", ".rar", ".7z",
+  ".exe", ".dll", ".so", ".dylib",
+  ".mp3", ".mp4", ".avi", ".mov", ".wav",
+  ".ttf", ".otf", ".woff", ".woff2",
+]);
+
+// One search running on the pool
+interface ScanJob {
+  query: WorkerQuery;
+  onFile: (file: string, matches: Match[]) => void;
+  onTimeout: (file: string) => void;
+  onError: (error: Error) => void;
+  // Batches queued or being searched
+  pending: number;
+  // Set when the search is over; its remaining batches are dropped
+  stopped: boolean;
+  onIdle: () => void;
+}
+
+interface Batch {
+  job: ScanJob;
+  files: string[];
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  batch?: Batch;
+  // Files of the batch already searched
+  done: number;
+  // Fires when the current file takes longer than the regex timeout
+  timer?: NodeJS.Timeout;
+}
+
+// Workers are kept between searches (unreferenced while idle)
+const workers: PoolWorker[] = [];
+const queue: Batch[] = [];
+
+function poolSize(): number {
+  return getConfig().tools.search.workers || Math.max(1, os.availableParallelism() - 1);
+}
+
+// Start a worker. Running from source, it needs tsx's loader registered first
+// (resolved with require, since import.meta.resolve is missing under some test runners).
+function startWorker(): Worker {
+  const url = new URL(`./worker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+  if (!url.pathname.endsWith(".ts")) return new Worker(url);
+
+  const tsx = pathToFileURL(createRequire(import.meta.url).resolve("tsx/esm/api")).href;
+  const code =
+    `import(${JSON.stringify(tsx)})` +
+    `.then((tsx) => { tsx.register(); return import(${JSON.stringify(url.href)}); });`;
+  return new Worker(code, { eval: true });
+}
+
+function finishBatch(batch: Batch): void {
+  batch.job.pending--;
+  if (batch.job.pending === 0) batch.job.onIdle();
+}
+
+function startTimer(entry: PoolWorker): void {
+  clearTimeout(entry.timer);
+  entry.timer = setTimeout(() => onTimeout(entry), getConfig().tools.search.regexTimeout);
+}
+
+// A file took too long: skip it, replace the worker and requeue the rest of its batch
+function onTimeout(entry: PoolWorker): void {
+  const batch = entry.batch;
+  removeWorker(entry);
+  if (!batch) return;
+
+  if (!batch.job.stopped) batch.job.onTimeout(batch.files[entry.done]);
+  const rest = batch.files.slice(entry.done + 1);
+  if (rest.length > 0) queue.unshift({ job: batch.job, files: rest });
+  else finishBatch(batch);
+  dispatch();
+}
+
+function removeWorker(entry: PoolWorker): void {
+  clearTimeout(entry.timer);
+  workers.splice(workers.indexOf(entry), 1);
+  entry.worker.removeAllListeners();
+  entry.worker.on("error", () => undefined);
+  entry.worker.terminate().catch(() => undefined);
+}
+
+function onReply(entry: PoolWorker, reply: WorkerReply): void {
+  if (reply.type === "ready") {
+    entry.ready = true;
+    dispatch();
+    return;
+  }
+
+  const batch = entry.batch;
+  if (!batch) return;
+  const file = batch.files[entry.done++];
+  if (!batch.job.stopped) batch.job.onFile(file, reply.matches);
+  if (entry.done < batch.files.length) {
+    startTimer(entry);
+    return;
+  }
+
+  clearTimeout(entry.timer);
+  entry.batch = undefined;
+  entry.worker.unref();
+  finishBatch(batch);
+  dispatch();
+}
+
+function addWorker(): void {
+  const entry: PoolWorker = { worker: startWorker(), ready: false, done: 0 };
+  entry.worker.on("message", (reply: WorkerReply) => onReply(entry, reply));
+  entry.worker.on("error", (error) => {
+    const batch = entry.batch;
+    removeWorker(entry);
+    // A worker that can't start fails all searches rather than being restarted forever
+    if (!entry.ready) {
+      for (const queued of queue.splice(0)) queued.job.onError(error);
+      return;
+    }
+    // A crashed worker loses the rest of its batch
+    if (batch) finishBatch(batch);
+    dispatch();
+  });
+  workers.push(entry);
+}
+
+// Hand queued batches to idle workers, starting workers as needed
+function dispatch(): void {
+  for (;;) {
+    while (queue.length > 0 && queue[0].job.stopped) finishBatch(queue.shift()!);
+    if (queue.length === 0) return;
+
+    const idle = workers.find((w) => w.ready && !w.batch);
+    if (!idle) {
+      if (workers.length < poolSize() && workers.every((w) => w.ready)) addWorker();
+      return;
+    }
+
+    const batch = queue.shift()!;
+    idle.batch = batch;
+    idle.done = 0;
+    idle.worker.ref();
+    idle.worker.postMessage({ files: batch.files, query: batch.job.query } satisfies WorkerBatch);
+    startTimer(idle);
+  }
+}
+
+/**
+ * Search with the built-in scanner: files are streamed from the directory
+ * walk to a pool of worker threads. The search stops once
+ * tools.search.maxCount matches are found, and files on which the regex runs
+ * longer than tools.search.regexTimeout are skipped.
+ */
+export async function scanSearch(query: GrepQuery): Promise<GrepResult> {
+  const config = getConfig().tools;
+  const extensions = query.extensions && new Set(query.extensions);
+  const flags = (query.caseInsensitive ? "i" : "") + (query.multiline ? "gms" : "");
+
+  const files: FileMatches[] = [];
+  const timedOut: string[] = [];
+  let count = 0;
+  let truncated = false;
+  let walked = false;
+  let failure: Error | undefined;
+
+  let resolveDone!: () => void;
+  const done = new Promise<void>((resolve) => (resolveDone = resolve));
+
+  const job: ScanJob = {
+    query: { pattern: query.pattern, flags, multiline: query.multiline, maxFileSize: config.grep.maxFileSize },
+    onFile: (file, matches) => {
+      if (matches.length === 0) return;
+      files.push({ file, matches, count: countLines(matches) });
+      count += matches.length;
+      if (count >= config.search.maxCount) {
+        truncated = true;
+        stop();
+      }
+    },
+    onTimeout: (file) => timedOut.push(file),
+    onError: (error) => {
+      failure = error;
+      stop();
+    },
+    pending: 0,
+    stopped: false,
+    onIdle: () => {
+      if (walked) resolveDone();
+    },
+  };
+  const stop = (): void => {
+    job.stopped = true;
+    resolveDone();
+  };
+
+  if (query.signal?.aborted) return { files, truncated, timedOut };
+  query.signal?.addEventListener("abort", stop, { once: true });
+
+  const enqueue = (batch: string[]): void => {
+    job.pending++;
+    queue.push({ job, files: batch });
+    dispatch();
+  };
+
+  try {
+    let batch: string[] = [];
+    const walk = globIterate(query.include || "**/*", {
+      cwd: query.dir,
+      absolute: true,
+      nodir: true,
+      // Like ripgrep, "*.ts" matches at any depth
+      matchBase: true,
+      dot: true,
+      ignore: [...config.ignore, ...config.grep.ignore],
+    });
+    for await (const file of walk) {
+      if (job.stopped) break;
+      const ext = path.extname(file).toLowerCase();
+      if (BINARY_EXTENSIONS.has(ext) || (extensions && !extensions.has(ext))) continue;
+
+      batch.push(file);
+      if (batch.length === BATCH_SIZE) {
+        enqueue(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0 && !job.stopped) enqueue(batch);
+
+    walked = true;
+    if (job.pending === 0) resolveDone();
+    await done;
+    if (failure) throw failure;
+  } finally {
+    job.stopped = true;
+    query.signal?.removeEventListener("abort", stop);
+  }
+
+  return { files, truncated, timedOut };
+}
@@ -0,0 +1,49 @@
+import { parentPort } from "worker_threads";
+import * as fs from "fs/promises";
+import { isBinary, searchContent, type Match } from "./match.js";
+
+// What to search for; the same for every batch of a search
+export interface WorkerQuery {
+  pattern: string;
+  flags: string;
+  multiline: boolean;
+  maxFileSize: number;
+}
+
+// Files for a worker to search
+export interface WorkerBatch {
+  files: string[];
+  query: WorkerQuery;
+}
+
+// "ready" once loaded, then one "file" reply per file of a batch, in order
+export type WorkerReply = { type: "ready" } | { type: "file"; matches: Match[] };
+
+// Matches in one file (none for binary, oversized and unreadable files)
+async function searchFile(file: string, regex: RegExp, query: WorkerQuery): Promise<Match[]> {
+  try {
+    const stat = await fs.stat(file);
+    if (stat.size > query.maxFileSize) return [];
+    const content = await fs.readFile(file);
+    if (isBinary(content)) return [];
+    return searchContent(content.toString("utf-8"), regex, query.multiline);
+  } catch {
+    return [];
+  }
+}
+
+const port = parentPort;
+if (port) {
+  let cached: { key: string; regex: RegExp } | undefined;
+
+  port.on("message", async ({ files, query }: WorkerBatch) => {
+    const key = `${query.flags}/${query.pattern}`;
+    if (cached?.key !== key) cached = { key, regex: new RegExp(query.pattern, query.flags) };
+
+    for (const file of files) {
+      const matches = await searchFile(file, cached.regex, query);
+      port.postMessage({ type: "file", matches } satisfies WorkerReply);
+    }
+  });
+  port.postMessage({ type: "ready" } satisfies WorkerReply);
+}
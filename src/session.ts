@@ -0,0 +1,153 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import type { CoreMessage } from "ai";
+import type { TodoItem } from "./types.js";
+import { createSessionCost, type SessionCost } from "./cost.js";
+
+const SESSIONS_DIR = path.join(process.env.HOME || "~", ".karyo", "sessions");
+
+// Accumulated token usage for a session
+export interface SessionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// A saved conversation
+export interface Session {
+  id: string;
+  modelId: string;
+  workingDir: string;
+  createdAt: string;
+  updatedAt: string;
+  usage: SessionUsage;
+  messages: CoreMessage[];
+  // Missing in sessions saved before todo lists existed
+  todos?: TodoItem[];
+  cost?: SessionCost;
+}
+
+// Lightweight listing entry (no messages)
+export interface SessionSummary {
+  id: string;
+  modelId: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  title: string;
+}
+
+// Sessions are stored per project, keyed by the working directory
+function getProjectDir(workingDir: string): string {
+  const key = path.resolve(workingDir).replace(/[^a-zA-Z0-9]/g, "-");
+  return path.join(SESSIONS_DIR, key);
+}
+
+function getSessionPath(workingDir: string, id: string): string {
+  return path.join(getProjectDir(workingDir), `${id}.json`);
+}
+
+// Use the first user message as the session title
+function getSessionTitle(messages: CoreMessage[]): string {
+  for (const msg of messages) {
+    if (msg.role !== "user") continue;
+    const text =
+      typeof msg.content === "string"
+        ? msg.content
+        : msg.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join(" ");
+    const singleLine = text.replace(/\s+/g, " ").trim();
+    if (singleLine) {
+      return singleLine.length > 60 ? singleLine.slice(0, 60) + "..." : singleLine;
+    }
+  }
+  return "(empty)";
+}
+
+// Create a new, unsaved session
+export function createSession(workingDir: string, modelId: string): Session {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID().slice(0, 8),
+    modelId,
+    workingDir: path.resolve(workingDir),
+    createdAt: now,
+    updatedAt: now,
+    usage: { promptTokens: 0, completionTokens: 0 },
+    messages: [],
+    todos: [],
+    cost: createSessionCost(),
+  };
+}
+
+// Save a session to disk (empty sessions are not written)
+export async function saveSession(session: Session): Promise<void> {
+  if (session.messages.length === 0) return;
+
+  session.updatedAt = new Date().toISOString();
+  const filePath = getSessionPath(session.workingDir, session.id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so a crash never leaves a truncated session
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(session, null, 2), "utf-8");
+  await fs.rename(tmpPath, filePath);
+}
+
+// Load a session by ID (accepts a unique ID prefix)
+export async function loadSession(workingDir: string, id: string): Promise<Session | null> {
+  const sessions = await listSessions(workingDir);
+  const matches = sessions.filter((s) => s.id.startsWith(id));
+
+  if (matches.length === 0) return null;
+  if (matches.length > 1 && !matches.some((s) => s.id === id)) {
+    throw new Error(`Ambiguous session ID "${id}" matches ${matches.length} sessions`);
+  }
+
+  const match = matches.find((s) => s.id === id) || matches[0];
+  const data = await fs.readFile(getSessionPath(workingDir, match.id), "utf-8");
+  return JSON.parse(data) as Session;
+}
+
+// List saved sessions for a project (most recently updated first)
+export async function listSessions(workingDir: string): Promise<SessionSummary[]> {
+  const dir = getProjectDir(workingDir);
+
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const data = await fs.readFile(path.join(dir, file), "utf-8");
+      const session = JSON.parse(data) as Session;
+      summaries.push({
+        id: session.id,
+        modelId: session.modelId,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length,
+        title: getSessionTitle(session.messages),
+      });
+    } catch {
+      // Skip corrupt session files
+      continue;
+    }
+  }
+
+  summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  return summaries;
+}
+
+// Load the most recently updated session for a project
+export async function loadLatestSession(workingDir: string): Promise<Session | null> {
+  const sessions = await listSessions(workingDir);
+  if (sessions.length === 0) return null;
+  return loadSession(workingDir, sessions[0].id);
+}
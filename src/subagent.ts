@@ -0,0 +1,123 @@
+import { generateText } from "ai";
+import chalk from "chalk";
+import {
+  getModel,
+  buildModelRequest,
+  formatRetryNotice,
+  formatFallbackNotice,
+} from "./agent.js";
+import { getTools } from "./tools/index.js";
+import { getConfig } from "./config.js";
+import { resolveModelAlias } from "./models.js";
+import { recordCost, withBudget, getPromptTokens } from "./cost.js";
+import { withFallback } from "./retry.js";
+import type { ToolContext } from "./types.js";
+
+// Result of one sub-agent run
+export interface SubAgentResult {
+  text: string;
+  steps: number;
+  usage: { promptTokens: number; completionTokens: number };
+  // True if the step limit was reached while the sub-agent was still working
+  stoppedEarly: boolean;
+}
+
+// System prompt for sub-agents: work alone and report back
+function buildSubAgentPrompt(workingDir: string, tools: string[], instructions = ""): string {
+  return `You are a sub-agent of a coding assistant. You were given one task by the main agent.
+
+Environment:
+- Working directory: ${workingDir}
+- Platform: ${process.platform}
+- Date: ${new Date().toISOString().split("T")[0]}
+
+Guidelines:
+1. Work autonomously; you cannot ask the user or the main agent questions
+2. Use your tools (${tools.join(", ")}) as much as needed, but stay focused on the task
+3. Finish with a concise final report. It is the only thing the main agent sees
+4. In the report, cite file paths with line numbers and quote only the code that matters${instructions}`;
+}
+
+/**
+ * Run a nested agent loop with its own message history and a restricted
+ * tool set. Only the final text is returned to the caller.
+ */
+export async function runSubAgent(
+  prompt: string,
+  options: {
+    description: string;
+    ctx: ToolContext;
+    model?: string;
+  }
+): Promise<SubAgentResult> {
+  const { description, ctx } = options;
+  const config = getConfig();
+  const modelId = resolveModelAlias(
+    options.model ?? config.tools.task.model ?? ctx.model ?? config.model
+  );
+
+  // Sub-agents never start further sub-agents or change the main todo list
+  const toolNames = config.tools.task.tools.filter(
+    (name) => !["task", "todo_write"].includes(name)
+  );
+  const subCtx: ToolContext = {
+    workingDir: ctx.workingDir,
+    abortSignal: ctx.abortSignal,
+    quiet: true,
+    state: ctx.state,
+    model: modelId,
+  };
+
+  const log = (message: string): void => {
+    if (!ctx.quiet) console.log(chalk.gray(`  [task: ${description}] ${message}`));
+  };
+
+  log(`started with ${modelId}`);
+
+  const request = buildModelRequest(modelId, {
+    system: buildSubAgentPrompt(ctx.workingDir, toolNames, ctx.state?.instructions?.formatForPrompt()),
+    messages: [{ role: "user", content: prompt }],
+    tools: getTools(subCtx, toolNames),
+    maxTokens: config.maxTokens,
+  });
+  for (const note of request.notes) {
+    log(note);
+  }
+
+  const chain = withFallback(await getModel(modelId), modelId, {
+    onRetry: (notice) => log(formatRetryNotice(notice)),
+    onFallback: (notice) => log(formatFallbackNotice(notice)),
+  });
+
+  const costs = ctx.state?.cost;
+  // With cached prompt tokens counted
+  const usage = { promptTokens: 0, completionTokens: 0 };
+  const result = await generateText({
+    model: withBudget(chain, costs),
+    system: request.system,
+    messages: request.messages,
+    tools: request.tools,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    maxSteps: config.tools.task.maxSteps,
+    maxRetries: 0,
+    abortSignal: ctx.abortSignal,
+    onStepFinish: (step) => {
+      recordCost(costs, chain.modelId, "task", step.usage, step.providerMetadata);
+      usage.promptTokens += getPromptTokens(step.usage, step.providerMetadata);
+      usage.completionTokens += step.usage.completionTokens;
+      for (const call of step.toolCalls) {
+        log(call.toolName);
+      }
+    },
+  });
+
+  log(`finished after ${result.steps.length} step(s)`);
+
+  return {
+    text: result.text,
+    steps: result.steps.length,
+    usage,
+    stoppedEarly: result.finishReason === "tool-calls",
+  };
+}
@@ -0,0 +1,39 @@
+import chalk from "chalk";
+import type { TodoItem, TodoStatus } from "./types.js";
+
+const STATUS_MARKS: Record<TodoStatus, string> = {
+  pending: "[ ]",
+  in_progress: "[~]",
+  completed: "[x]",
+};
+
+// "2/5 completed"
+export function formatTodoProgress(todos: TodoItem[]): string {
+  const done = todos.filter((todo) => todo.status === "completed").length;
+  return `${done}/${todos.length} completed`;
+}
+
+// Plain-text list for the model (tool results and compaction summaries)
+export function formatTodosForModel(todos: TodoItem[]): string {
+  if (todos.length === 0) return "(No todos)";
+  return todos
+    .map((todo, i) => `${STATUS_MARKS[todo.status]} ${i + 1}. ${todo.content}`)
+    .join("\n");
+}
+
+// Checklist for the terminal
+export function formatTodoList(todos: TodoItem[]): string {
+  if (todos.length === 0) return chalk.gray("No todos.");
+
+  const lines = todos.map((todo) => {
+    switch (todo.status) {
+      case "completed":
+        return chalk.green("  ✔ ") + chalk.gray.strikethrough(todo.content);
+      case "in_progress":
+        return chalk.cyan("  ▶ ") + chalk.bold(todo.content);
+      default:
+        return chalk.gray("  ○ ") + todo.content;
+    }
+  });
+  return [chalk.bold(`Todos (${formatTodoProgress(todos)})`), ...lines].join("\n");
+}
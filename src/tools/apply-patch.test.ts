@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as os from "os";
+import * as path from "path";
+
+vi.mock("fs/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("fs/promises")>();
+  return { ...actual, writeFile: vi.fn(actual.writeFile) };
+});
+
+const fs = await import("fs/promises");
+const { applyPatchTool } = await import("./apply-patch.js");
+const { FileReadStore } = await import("../file-reads.js");
+type ToolContext = import("../types.js").ToolContext;
+
+let dir: string;
+let ctx: ToolContext;
+
+// Create files and mark them as read by the agent
+async function setup(files: Record<string, string>): Promise<void> {
+  const fileReads = new FileReadStore();
+  for (const [name, content] of Object.entries(files)) {
+    const filePath = path.join(dir, name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    await fileReads.record(filePath);
+  }
+  ctx = { workingDir: dir, quiet: true, hookApproved: true, state: { planMode: false, fileReads } };
+}
+
+async function read(name: string): Promise<string | null> {
+  return fs.readFile(path.join(dir, name), "utf-8").catch(() => null);
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "karyo-patch-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("apply_patch", () => {
+  it("modifies, creates and deletes files", async () => {
+    await setup({ "a.txt": "one\ntwo\n", "old.txt": "gone\n" });
+    const patch = [
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "--- /dev/null",
+      "+++ b/new/b.txt",
+      "@@ -0,0 +1 @@",
+      "+created",
+      "--- a/old.txt",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-gone",
+      "",
+    ].join("\n");
+
+    const result = await applyPatchTool.execute({ patch }, ctx);
+    expect(result.isError).toBeFalsy();
+    expect(await read("a.txt")).toBe("ONE\ntwo\n");
+    expect(await read("new/b.txt")).toBe("created\n");
+    expect(await read("old.txt")).toBeNull();
+  });
+
+  it("renames files from git headers", async () => {
+    await setup({ "from.txt": "moved\n" });
+    const patch = [
+      "diff --git a/from.txt b/to.txt",
+      "similarity index 100%",
+      "rename from from.txt",
+      "rename to to.txt",
+      "",
+    ].join("\n");
+
+    const result = await applyPatchTool.execute({ patch }, ctx);
+    expect(result.isError).toBeFalsy();
+    expect(await read("from.txt")).toBeNull();
+    expect(await read("to.txt")).toBe("moved\n");
+  });
+
+  it("changes nothing when a hunk is rejected", async () => {
+    await setup({ "a.txt": "one\ntwo\n", "b.txt": "three\n" });
+    const patch = [
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "--- a/b.txt",
+      "+++ b/b.txt",
+      "@@ -1 +1 @@",
+      "-missing",
+      "+four",
+      "",
+    ].join("\n");
+
+    const result = await applyPatchTool.execute({ patch }, ctx);
+    expect(result.isError).toBe(true);
+    expect(result.output).toMatch(/b\.txt: 1 of 1 hunk\(s\) rejected/);
+    expect(await read("a.txt")).toBe("one\ntwo\n");
+  });
+
+  it("rejects a file that appears in more than one entry", async () => {
+    await setup({ "a.txt": "one\ntwo\n" });
+    const patch = [
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,2 +1,2 @@",
+      " one",
+      "-two",
+      "+TWO",
+      "",
+    ].join("\n");
+
+    const result = await applyPatchTool.execute({ patch }, ctx);
+    expect(result.isError).toBe(true);
+    expect(result.output).toMatch(/appears in more than one file entry/);
+    expect(await read("a.txt")).toBe("one\ntwo\n");
+  });
+
+  it("restores every file when a write fails", async () => {
+    await setup({ "a.txt": "one\ntwo\n" });
+    const actual = await vi.importActual<typeof import("fs/promises")>("fs/promises");
+    vi.mocked(fs.writeFile).mockImplementation(async (file, data, options) => {
+      // Leave a partial file behind, like a full disk would
+      if (String(file).endsWith("b.txt")) {
+        await actual.writeFile(file, "partial");
+        throw new Error("ENOSPC: no space left on device");
+      }
+      return actual.writeFile(file, data, options);
+    });
+
+    const patch = [
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "--- /dev/null",
+      "+++ b/b.txt",
+      "@@ -0,0 +1 @@",
+      "+created",
+      "",
+    ].join("\n");
+
+    const result = await applyPatchTool.execute({ patch }, ctx);
+    vi.mocked(fs.writeFile).mockImplementation(actual.writeFile);
+    expect(result.isError).toBe(true);
+    expect(result.output).toMatch(/no space left/);
+    expect(await read("a.txt")).toBe("one\ntwo\n");
+    expect(await read("b.txt")).toBeNull();
+  });
+});
@@ -0,0 +1,405 @@
+import { z } from "zod";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parsePatch, applyPatch, createTwoFilesPatch, type Hunk } from "diff";
+import {
+  type ToolDefinition,
+  type ToolContext,
+  type ToolResult,
+} from "../types.js";
+import { checkPermission } from "../permission.js";
+import { getConfig } from "../config.js";
+
+const parameters = z.object({
+  patch: z
+    .string()
+    .describe(
+      "A unified diff (git-style or plain) touching one or more files. " +
+        "Use /dev/null as the old file to create a file and as the new file to delete one.",
+    ),
+  fuzz_factor: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Number of context lines per hunk allowed to differ (default: 2, configurable)"),
+});
+
+type ApplyPatchParams = z.infer<typeof parameters>;
+
+// One file's worth of changes from the patch
+interface FilePatch {
+  // null for created files
+  oldPath: string | null;
+  // null for deleted files
+  newPath: string | null;
+  hunks: Hunk[];
+}
+
+// A file change computed in memory, ready to be written
+interface PlannedChange {
+  kind: "create" | "modify" | "delete" | "rename";
+  oldPath: string | null;
+  newPath: string | null;
+  oldContent: string;
+  newContent: string;
+}
+
+const DEV_NULL = "/dev/null";
+
+// Strip git's a/ and b/ prefixes from a file name
+function stripPrefix(name: string | undefined): string | null {
+  if (!name || name === DEV_NULL) return null;
+  return name.replace(/^[ab]\//, "");
+}
+
+/**
+ * Rewrite hunk headers with line counts computed from the hunk body.
+ * Models often get the counts wrong or drop the space on blank context lines.
+ */
+function normalizeHunks(patch: string): string {
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  const out: string[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const header = lines[i].match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/);
+    if (!header) {
+      out.push(lines[i]);
+      i++;
+      continue;
+    }
+
+    const body: string[] = [];
+    i++;
+    while (i < lines.length && !/^(@@ |--- |\+\+\+ |diff --git )/.test(lines[i])) {
+      const line = lines[i];
+      // A blank line inside a hunk is a context line that lost its leading space;
+      // blank lines before the next file or at the end are not part of the hunk
+      if (line === "") {
+        const next = lines.slice(i).find((l) => l !== "");
+        if (next === undefined || !/^[ +\-\\]/.test(next) || /^(--- |\+\+\+ )/.test(next)) break;
+      } else if (!/^[ +\-\\]/.test(line)) {
+        break;
+      }
+      body.push(line === "" ? " " : line);
+      i++;
+    }
+
+    const oldCount = body.filter((l) => l[0] === " " || l[0] === "-").length;
+    const newCount = body.filter((l) => l[0] === " " || l[0] === "+").length;
+    out.push(`@@ -${header[1]},${oldCount} +${header[2]},${newCount} @@${header[3]}`);
+    out.push(...body);
+  }
+
+  return out.join("\n");
+}
+
+// Split a patch into per-file patches, including git renames without hunks
+function parseFilePatches(patch: string): FilePatch[] {
+  const normalized = normalizeHunks(patch);
+
+  // Plain unified diff without git headers
+  if (!/^diff --git /m.test(normalized)) {
+    return parsePatch(normalized)
+      .filter((p) => p.oldFileName || p.newFileName)
+      .map((p) => ({
+        oldPath: stripPrefix(p.oldFileName),
+        newPath: stripPrefix(p.newFileName),
+        hunks: p.hunks,
+      }));
+  }
+
+  const blocks = normalized.split(/^(?=diff --git )/m).filter((b) => b.startsWith("diff --git "));
+  return blocks.map((block) => {
+    const header = block.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+    const renameFrom = block.match(/^rename from (.+)$/m)?.[1];
+    const renameTo = block.match(/^rename to (.+)$/m)?.[1];
+    const isNew = /^new file mode /m.test(block);
+    const isDeleted = /^deleted file mode /m.test(block);
+
+    const [parsed] = parsePatch(block);
+    let oldPath = renameFrom ?? stripPrefix(parsed?.oldFileName) ?? header?.[1] ?? null;
+    let newPath = renameTo ?? stripPrefix(parsed?.newFileName) ?? header?.[2] ?? null;
+    if (isNew || parsed?.oldFileName === DEV_NULL) oldPath = null;
+    if (isDeleted || parsed?.newFileName === DEV_NULL) newPath = null;
+
+    return { oldPath, newPath, hunks: parsed?.hunks ?? [] };
+  });
+}
+
+// Format a hunk the way it appears in a patch
+function formatHunk(hunk: Hunk): string {
+  return [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines,
+  ].join("\n");
+}
+
+// Show the file lines a rejected hunk was expected to match
+function describeRejectedHunk(hunk: Hunk, content: string): string {
+  const lines = content.split("\n");
+  const start = Math.max(0, hunk.oldStart - 1);
+  const end = Math.min(lines.length, start + Math.max(hunk.oldLines, 1) + 2);
+  const actual = lines
+    .slice(start, end)
+    .map((line, i) => `  ${String(start + i + 1).padStart(5)}: ${line}`)
+    .join("\n");
+
+  return `${formatHunk(hunk)}\n\nActual file content near line ${hunk.oldStart}:\n${actual || "  (end of file)"}`;
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// Compute a file's new content in memory; returns an error message on failure
+async function planChange(
+  filePatch: FilePatch,
+  ctx: ToolContext,
+  fuzzFactor: number,
+): Promise<PlannedChange | string> {
+  const resolve = (p: string | null): string | null =>
+    p === null ? null : path.isAbsolute(p) ? p : path.resolve(ctx.workingDir, p);
+
+  const oldPath = resolve(filePatch.oldPath);
+  const newPath = resolve(filePatch.newPath);
+
+  if (!oldPath && !newPath) {
+    return "Error: patch entry has no file names";
+  }
+
+  const kind: PlannedChange["kind"] = !oldPath
+    ? "create"
+    : !newPath
+      ? "delete"
+      : oldPath !== newPath
+        ? "rename"
+        : "modify";
+
+  const label = newPath ?? oldPath!;
+
+  // Files the patch changes, deletes or moves must have been read, and not changed since
+  if (oldPath) {
+    const stale = await ctx.state?.fileReads?.check(oldPath);
+    if (stale) return stale;
+  }
+
+  const oldContent = oldPath ? await readIfExists(oldPath) : "";
+
+  if (oldContent === null) {
+    return `Error: ${label}: file not found: ${oldPath}`;
+  }
+  if ((kind === "create" || kind === "rename") && (await readIfExists(newPath!)) !== null) {
+    return `Error: ${label}: cannot ${kind === "create" ? "create" : "rename to"} ${newPath}, file already exists`;
+  }
+
+  // Deleting without hunks (e.g. a git patch of a binary file) removes the file as is
+  if (filePatch.hunks.length === 0) {
+    return { kind, oldPath, newPath, oldContent, newContent: kind === "delete" ? "" : oldContent };
+  }
+
+  const result = applyPatch(oldContent, { hunks: filePatch.hunks }, { fuzzFactor });
+  if (result === false) {
+    // Find which hunks do not apply on their own
+    const rejected = filePatch.hunks.filter(
+      (hunk) => applyPatch(oldContent, { hunks: [hunk] }, { fuzzFactor }) === false,
+    );
+    const details =
+      rejected.length > 0
+        ? rejected.map((hunk) => describeRejectedHunk(hunk, oldContent)).join("\n\n")
+        : "Each hunk applies on its own, but not together. Check for overlapping hunks.";
+    return `Error: ${label}: ${rejected.length || "some"} of ${filePatch.hunks.length} hunk(s) rejected\n\n${details}`;
+  }
+
+  if (kind === "delete" && result.trim() !== "") {
+    return `Error: ${label}: delete patch does not remove the whole file; ${result.split("\n").length} line(s) would remain`;
+  }
+
+  return { kind, oldPath, newPath, oldContent, newContent: result };
+}
+
+async function execute(
+  rawArgs: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const args = rawArgs as ApplyPatchParams;
+  const { patch, fuzz_factor = getConfig().tools.applyPatch.fuzzFactor } = args;
+
+  let filePatches: FilePatch[];
+  try {
+    filePatches = parseFilePatches(patch);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { output: `Error: Could not parse patch: ${message}`, isError: true };
+  }
+
+  if (filePatches.length === 0) {
+    return {
+      output: "Error: No file changes found in patch. Expected unified diff headers (--- / +++) and @@ hunks.",
+      isError: true,
+    };
+  }
+
+  // Each entry is planned against the file on disk, so a file may only appear once
+  const seen = new Set<string>();
+  for (const filePatch of filePatches) {
+    for (const name of new Set([filePatch.oldPath, filePatch.newPath])) {
+      if (name === null) continue;
+      const filePath = path.resolve(ctx.workingDir, name);
+      if (seen.has(filePath)) {
+        return {
+          output: `Patch not applied; no files were changed.\n\nError: ${filePath} appears in more than one file entry. Combine its hunks into one entry.`,
+          isError: true,
+        };
+      }
+      seen.add(filePath);
+    }
+  }
+
+  try {
+    // Compute every file's result first; nothing is written if any fails
+    const changes: PlannedChange[] = [];
+    const errors: string[] = [];
+    for (const filePatch of filePatches) {
+      const planned = await planChange(filePatch, ctx, fuzz_factor);
+      if (typeof planned === "string") {
+        errors.push(planned);
+      } else {
+        changes.push(planned);
+      }
+    }
+
+    if (errors.length > 0) {
+      return {
+        output: `Patch not applied; no files were changed.\n\n${errors.join("\n\n")}`,
+        isError: true,
+      };
+    }
+
+    // Per-file preview and permission
+    const previews: string[] = [];
+    for (const change of changes) {
+      const label = change.newPath ?? change.oldPath!;
+      const diff = createTwoFilesPatch(
+        change.oldPath ?? DEV_NULL,
+        change.newPath ?? DEV_NULL,
+        change.oldContent,
+        change.newContent,
+        "original",
+        "modified",
+      );
+      previews.push(diff);
+
+      const paths = [change.oldPath, change.newPath].filter((p): p is string => p !== null);
+      const permission = await checkPermission({
+        tool: change.kind === "create" ? "write" : "edit",
+        subject: label,
+        details: `Patch (${change.kind}): ${change.kind === "rename" ? `${change.oldPath} -> ${change.newPath}` : label}\n\n${diff}`,
+        defaultDecision: change.kind === "create" ? "allow" : "ask",
+        parts: [...new Set(paths)].map((p) => ({
+          subject: p,
+          defaultDecision: change.kind === "create" ? "allow" : "ask",
+        })),
+        workingDir: ctx.workingDir,
+        preApproved: ctx.hookApproved,
+      });
+
+      if (!permission.allowed) {
+        return {
+          output: `${permission.message || "Permission denied"} for ${label}; no files were changed.`,
+          isError: true,
+        };
+      }
+    }
+
+    // Files may have changed (or appeared) while the prompts were open
+    const touched = new Set(
+      changes.flatMap((c) => [c.oldPath, c.newPath]).filter((p): p is string => p !== null),
+    );
+    for (const filePath of touched) {
+      const stale = await ctx.state?.fileReads?.check(filePath);
+      if (stale) {
+        return { output: `Patch not applied; no files were changed.\n\n${stale}`, isError: true };
+      }
+    }
+
+    // What every touched file holds now (null: missing), to restore if a write fails
+    const originals = new Map<string, string | null>();
+    for (const filePath of touched) {
+      originals.set(filePath, await readIfExists(filePath));
+      await ctx.state?.checkpoints?.snapshot(filePath);
+    }
+
+    // Write everything, rolling back on failure
+    try {
+      for (const change of changes) {
+        if (change.newPath) {
+          await fs.mkdir(path.dirname(change.newPath), { recursive: true });
+          await fs.writeFile(change.newPath, change.newContent, "utf-8");
+        }
+        if (change.oldPath && change.oldPath !== change.newPath) {
+          await fs.rm(change.oldPath);
+        }
+      }
+    } catch (error) {
+      for (const [filePath, content] of originals) {
+        await (content === null
+          ? fs.rm(filePath, { force: true })
+          : fs.writeFile(filePath, content, "utf-8")
+        ).catch(() => {});
+      }
+      throw error;
+    }
+
+    // The patch shows the model the new contents, so later edits need no re-read
+    for (const change of changes) {
+      if (change.oldPath && change.oldPath !== change.newPath) ctx.state?.fileReads?.forget(change.oldPath);
+      if (change.newPath) await ctx.state?.fileReads?.record(change.newPath, change.newContent);
+    }
+
+    const summary = changes
+      .map((c) => {
+        switch (c.kind) {
+          case "create":
+            return `  created ${c.newPath}`;
+          case "delete":
+            return `  deleted ${c.oldPath}`;
+          case "rename":
+            return `  renamed ${c.oldPath} -> ${c.newPath}`;
+          default:
+            return `  modified ${c.newPath}`;
+        }
+      })
+      .join("\n");
+
+    return {
+      output: `Successfully applied patch to ${changes.length} file(s):\n${summary}\n\n${previews.join("\n")}`,
+      writtenFiles: changes.flatMap((c) => (c.newPath ? [c.newPath] : [])),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      output: `Error applying patch: ${message}`,
+      isError: true,
+    };
+  }
+}
+
+export const applyPatchTool: ToolDefinition = {
+  name: "apply_patch",
+  description:
+    "Apply a unified diff to one or more files. Supports modifying, creating (--- /dev/null), " +
+    "deleting (+++ /dev/null) and renaming files (git rename headers or different ---/+++ names). " +
+    "Context lines may differ slightly (fuzz factor). Each file may appear in only one entry. " +
+    "Either every file is changed or none are; " +
+    "files it changes, deletes or renames must have been read first and not changed since; " +
+    "rejected hunks are reported with the actual file content so they can be fixed.",
+  parameters,
+  execute,
+};
@@ -1,33 +1,82 @@
 import { z } from "zod";
-import { spawn } from "child_process";
+import { spawn, type ChildProcess } from "child_process";
 import { type ToolDefinition, type ToolContext, type ToolResult } from "../types.js";
-import { isDangerousCommand, askPermission } from "../permission.js";
+import { getDangerReason, checkPermission, findNonReadOnlyParts } from "../permission.js";
+import { getConfig } from "../config.js";
+import { parseCommand } from "../util/shell.js";
 
 const parameters = z.object({
   command: z.string().describe("The bash command to execute"),
   timeout: z
     .number()
     .optional()
-    .describe("Timeout in milliseconds (default: 120000 = 2 minutes)"),
+    .describe("Timeout in milliseconds (default: 120000 = 2 minutes, configurable)"),
 });
 
 type BashParams = z.infer<typeof parameters>;
 
+// Stop the shell and everything it started (it leads its own process group)
+function killProcessGroup(proc: ChildProcess): void {
+  if (proc.pid === undefined || proc.exitCode !== null || proc.signalCode !== null) return;
+  try {
+    process.kill(process.platform === "win32" ? proc.pid : -proc.pid, "SIGTERM");
+  } catch {
+    proc.kill("SIGTERM");
+  }
+}
+
 async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
   const args = rawArgs as BashParams;
-  const { command, timeout = 120000 } = args;
+  const config = getConfig().tools.bash;
+  const { command, timeout = config.timeout } = args;
 
-  // Check for dangerous commands
-  if (isDangerousCommand(command)) {
-    const allowed = await askPermission("bash", `Execute command: ${command}`);
-    if (!allowed) {
+  // Plan mode only allows read-only commands
+  if (ctx.state?.planMode) {
+    const blocked = findNonReadOnlyParts(command);
+    if (blocked.length > 0) {
       return {
-        output: "Permission denied by user",
+        output:
+          `Plan mode: only read-only commands are allowed. Not allowed: ${blocked.join(", ")}\n` +
+          "Call exit_plan with your plan to get approval before making changes.",
         isError: true,
       };
     }
   }
 
+  // Check each simple command separately (dangerous ones ask by default)
+  const parts = parseCommand(command);
+  const flagged = parts
+    .map(getDangerReason)
+    .filter((reason): reason is string => reason !== null);
+
+  let details = `Execute command: ${command}`;
+  if (flagged.length > 0) {
+    details += "\n\nFlagged:" + flagged.map((f) => `\n  - ${f}`).join("");
+  }
+
+  const permission = await checkPermission({
+    tool: "bash",
+    subject: command,
+    details,
+    defaultDecision: flagged.length > 0 ? "ask" : "allow",
+    parts: parts.map((part) => ({
+      subject: part.text,
+      defaultDecision: getDangerReason(part) ? "ask" : "allow",
+    })),
+    workingDir: ctx.workingDir,
+    preApproved: ctx.hookApproved,
+  });
+  if (!permission.allowed) {
+    return {
+      output: permission.message || "Permission denied",
+      isError: true,
+    };
+  }
+
+  if (ctx.abortSignal?.aborted) {
+    return { output: "Command not run: interrupted by user", isError: true };
+  }
+
   return new Promise((resolve) => {
     const output: string[] = [];
     const errorOutput: string[] = [];
@@ -44,27 +93,26 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
         TERM: "xterm-256color",
       },
       timeout,
+      // A process group of its own, so that interrupts reach child processes too
+      detached: process.platform !== "win32",
     });
 
     // Handle abort signal
-    if (ctx.abortSignal) {
-      ctx.abortSignal.addEventListener("abort", () => {
-        proc.kill("SIGTERM");
-      });
-    }
+    const onAbort = (): void => killProcessGroup(proc);
+    ctx.abortSignal?.addEventListener("abort", onAbort, { once: true });
 
     proc.stdout.on("data", (data: Buffer) => {
       const text = data.toString();
       output.push(text);
       // Stream output to console for visibility
-      process.stdout.write(text);
+      if (!ctx.quiet) process.stdout.write(text);
     });
 
     proc.stderr.on("data", (data: Buffer) => {
       const text = data.toString();
       errorOutput.push(text);
       // Stream stderr to console
-      process.stderr.write(text);
+      if (!ctx.quiet) process.stderr.write(text);
     });
 
     proc.on("error", (error) => {
@@ -75,6 +123,7 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
     });
 
     proc.on("close", (code) => {
+      ctx.abortSignal?.removeEventListener("abort", onAbort);
       const stdout = output.join("");
       const stderr = errorOutput.join("");
 
@@ -90,7 +139,7 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
       }
 
       // Truncate very long output
-      const maxLength = 30000;
+      const maxLength = config.maxOutputLength;
       if (result.length > maxLength) {
         result = result.slice(0, maxLength) + "\n\n[Output truncated...]";
       }
@@ -99,7 +148,9 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
         result = code === 0 ? "(Command completed successfully with no output)" : "(No output)";
       }
 
-      if (code !== 0) {
+      if (ctx.abortSignal?.aborted) {
+        result += "\n\n[Command interrupted by user]";
+      } else if (code !== 0) {
         result += `\n\nExit code: ${code}`;
       }
 
@@ -111,7 +162,7 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
 
     // Handle timeout
     setTimeout(() => {
-      proc.kill("SIGTERM");
+      killProcessGroup(proc);
       resolve({
         output: `Command timed out after ${timeout}ms`,
         isError: true,
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { applyEdit, formatMatchNote } from "./edit.js";
+
+const file = "/project/a.ts";
+
+describe("applyEdit", () => {
+  it("replaces an exact match", () => {
+    expect(applyEdit("const a = 1;\nconst b = 2;\n", "b = 2", "b = 3", false, file)).toEqual({
+      ok: true,
+      content: "const a = 1;\nconst b = 3;\n",
+      replaced: 1,
+      strategy: "exact",
+    });
+  });
+
+  it("inserts new_string literally", () => {
+    const applied = applyEdit("a\n", "a", "$& $1", false, file);
+    expect(applied).toMatchObject({ ok: true, content: "$& $1\n" });
+  });
+
+  it("refuses an exact match in several places without replace_all", () => {
+    const applied = applyEdit("x = 1;\nx = 1;\n", "x = 1", "x = 2", false, file);
+    expect(applied).toMatchObject({
+      ok: false,
+      error: expect.stringMatching(/Found 2 occurrences/),
+    });
+  });
+
+  it("replaces every exact match with replace_all", () => {
+    expect(applyEdit("x = 1;\nx = 1;\n", "x = 1", "x = 2", true, file)).toEqual({
+      ok: true,
+      content: "x = 2;\nx = 2;\n",
+      replaced: 2,
+      strategy: "exact",
+    });
+  });
+
+  it("matches after normalizing line endings", () => {
+    const applied = applyEdit("one\r\ntwo\r\nthree\r\n", "one\ntwo\n", "1\n2\n", false, file);
+    expect(applied).toEqual({
+      ok: true,
+      content: "1\r\n2\r\nthree\r\n",
+      replaced: 1,
+      strategy: "line-endings",
+    });
+  });
+
+  it("matches ignoring trailing whitespace", () => {
+    const content = "if (a) {  \n  run();\n}\n";
+    const applied = applyEdit(content, "if (a) {\n  run();", "if (b) {\n  run();", false, file);
+    expect(applied).toEqual({
+      ok: true,
+      content: "if (b) {\n  run();\n}\n",
+      replaced: 1,
+      strategy: "trimmed-lines",
+    });
+  });
+
+  it("matches ignoring indentation and re-indents new_string", () => {
+    const content = "class A {\n    run() {\n        go();\n    }\n}\n";
+    const applied = applyEdit(
+      content,
+      "run() {\n  go();\n}",
+      "run() {\n  if (ready) {\n    go();\n  }\n}",
+      false,
+      file
+    );
+    expect(applied).toEqual({
+      ok: true,
+      content: "class A {\n    run() {\n        if (ready) {\n            go();\n        }\n    }\n}\n",
+      replaced: 1,
+      strategy: "indentation",
+    });
+  });
+
+  it("re-indents new_string with the file's tabs", () => {
+    const content = "function f() {\n\tif (a) {\n\t\tb();\n\t}\n}\n";
+    const newString = "if (a) {\n  b();\n  c();\n}";
+    const applied = applyEdit(content, "if (a) {\n  b();\n}", newString, false, file);
+    expect(applied).toMatchObject({
+      ok: true,
+      content: "function f() {\n\tif (a) {\n\t\tb();\n\t\tc();\n\t}\n}\n",
+      strategy: "indentation",
+    });
+  });
+
+  it("refuses a loose match in several places", () => {
+    const applied = applyEdit("  a();\n    a();\n", "\ta();", "b();", false, file);
+    expect(applied).toMatchObject({
+      ok: false,
+      error: expect.stringMatching(/matches 2 places ignoring indentation/),
+    });
+  });
+
+  it("points at similar lines when nothing matches", () => {
+    const content = "function run() {\n  go();\n}\n";
+    const applied = applyEdit(content, "function  RUN() {\n  stop();", "", false, file);
+    expect(applied).toEqual({
+      ok: false,
+      error:
+        `Error: Could not find the specified text in ${file}\n\n` +
+        "Similar lines found:\n  Line 1: function run() {\n\n" +
+        "Make sure the old_string matches exactly, including whitespace and indentation.",
+    });
+  });
+
+  it("refuses an empty old_string", () => {
+    expect(applyEdit("a\n", "", "b", false, file)).toMatchObject({ ok: false });
+  });
+});
+
+describe("formatMatchNote", () => {
+  it("explains loose matches only", () => {
+    expect(formatMatchNote("exact")).toBe("");
+    expect(formatMatchNote("trimmed-lines")).toBe(
+      "old_string did not match exactly; matched ignoring trailing whitespace"
+    );
+    expect(formatMatchNote("indentation")).toMatch(/re-indented/);
+  });
+});
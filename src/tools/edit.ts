@@ -7,7 +7,7 @@ import {
   type ToolContext,
   type ToolResult,
 } from "../types.js";
-import { askPermission } from "../permission.js";
+import { checkPermission } from "../permission.js";
 
 const parameters = z.object({
   file_path: z.string().describe("The absolute path to the file to edit"),
@@ -21,6 +21,255 @@ const parameters = z.object({
 
 type EditParams = z.infer<typeof parameters>;
 
+// How old_string was found in the file
+export type MatchStrategy = "exact" | "line-endings" | "trimmed-lines" | "indentation";
+
+const STRATEGY_NOTES: Record<Exclude<MatchStrategy, "exact">, string> = {
+  "line-endings": "after normalizing line endings",
+  "trimmed-lines": "ignoring trailing whitespace",
+  indentation: "ignoring indentation",
+};
+
+// Tells the model that old_string only matched after normalizing ("" for exact matches)
+export function formatMatchNote(strategy: MatchStrategy): string {
+  if (strategy === "exact") return "";
+  const reindented = strategy === "indentation" ? "; new_string was re-indented to fit" : "";
+  return `old_string did not match exactly; matched ${STRATEGY_NOTES[strategy]}${reindented}`;
+}
+
+// Outcome of applying one find/replace to file content
+export type EditApplication =
+  | { ok: true; content: string; replaced: number; strategy: MatchStrategy }
+  | { ok: false; error: string };
+
+// A place old_string matched after normalizing, and what replaces it
+interface FuzzyMatch {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+function getLineEnding(content: string): string {
+  return content.includes("\r\n") ? "\r\n" : "\n";
+}
+
+function withLineEnding(text: string, eol: string): string {
+  const normalized = text.replace(/\r\n/g, "\n");
+  return eol === "\n" ? normalized : normalized.replace(/\n/g, eol);
+}
+
+function leadingWhitespace(line: string): string {
+  return /^[ \t]*/.exec(line)![0];
+}
+
+// Shortest indentation of the non-blank lines
+function baseIndent(lines: string[]): string {
+  return lines
+    .filter((line) => line.trim())
+    .map(leadingWhitespace)
+    .reduce<string | undefined>((min, ws) => (min === undefined || ws.length < min.length ? ws : min), undefined) ?? "";
+}
+
+// One level of indentation below the base, e.g. "  " or "\t"
+function indentUnit(lines: string[], base: string): string | undefined {
+  return lines
+    .filter((line) => line.trim() && line.startsWith(base))
+    .map((line) => leadingWhitespace(line).slice(base.length))
+    .filter((ws) => ws.length > 0)
+    .reduce<string | undefined>((min, ws) => (min === undefined || ws.length < min.length ? ws : min), undefined);
+}
+
+// Move new_string from old_string's indentation to the file's
+function reindent(newLines: string[], oldLines: string[], fileLines: string[]): string[] {
+  const oldBase = baseIndent(oldLines);
+  const fileBase = baseIndent(fileLines);
+  const fromUnit = indentUnit(oldLines, oldBase) ?? indentUnit(newLines, oldBase);
+  const toUnit = indentUnit(fileLines, fileBase) ?? (fileBase.includes("\t") ? "\t" : fromUnit);
+
+  return newLines.map((line) => {
+    if (!line.trim()) return "";
+    const ws = leadingWhitespace(line);
+    let relative = ws.startsWith(oldBase) ? ws.slice(oldBase.length) : "";
+    if (fromUnit && toUnit && fromUnit !== toUnit) {
+      let level = 0;
+      while (relative.startsWith(fromUnit.repeat(level + 1))) level++;
+      relative = toUnit.repeat(level) + relative.slice(level * fromUnit.length);
+    }
+    return fileBase + relative + line.slice(ws.length);
+  });
+}
+
+// old_string with the file's line endings
+function matchLineEndings(content: string, oldString: string, newString: string): FuzzyMatch[] {
+  const eol = getLineEnding(content);
+  const converted = withLineEnding(oldString, eol);
+  if (converted === oldString) return [];
+
+  const replacement = withLineEnding(newString, eol);
+  const matches: FuzzyMatch[] = [];
+  for (let i = content.indexOf(converted); i !== -1; i = content.indexOf(converted, i + converted.length)) {
+    matches.push({ start: i, end: i + converted.length, replacement });
+  }
+  return matches;
+}
+
+// old_string as whole lines, comparing each line after normalizing it
+function matchLines(
+  content: string,
+  oldString: string,
+  newString: string,
+  normalize: (line: string) => string,
+  reindentNew: boolean
+): FuzzyMatch[] {
+  const eol = getLineEnding(content);
+  const lines = content.split("\n");
+  const oldLines = oldString.replace(/\r\n/g, "\n").split("\n");
+  // A trailing newline in old_string ends its last line
+  const endsWithNewline = oldLines.length > 1 && oldLines[oldLines.length - 1] === "";
+  if (endsWithNewline) oldLines.pop();
+  if (!oldLines.some((line) => line.trim())) return [];
+
+  const wanted = oldLines.map(normalize);
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  let newLines = newString.replace(/\r\n/g, "\n").split("\n");
+  const newEndsWithNewline = newLines.length > 1 && newLines[newLines.length - 1] === "";
+  if (newEndsWithNewline) newLines.pop();
+
+  const matches: FuzzyMatch[] = [];
+  for (let first = 0; first + oldLines.length <= lines.length; first++) {
+    const window = lines.slice(first, first + oldLines.length);
+    if (!window.every((line, i) => normalize(line.replace(/\r$/, "")) === wanted[i])) continue;
+
+    const last = first + oldLines.length - 1;
+    let end = lineStarts[last] + lines[last].replace(/\r$/, "").length;
+    // Replace the line break as well, as an exact match of old_string would
+    if (endsWithNewline && last < lines.length - 1) end += eol.length;
+
+    const replaced = reindentNew
+      ? reindent(newLines, oldLines, window.map((line) => line.replace(/\r$/, "")))
+      : newLines;
+    const trailing = newEndsWithNewline && endsWithNewline && last < lines.length - 1 ? eol : "";
+    matches.push({ start: lineStarts[first], end, replacement: replaced.join(eol) + trailing });
+  }
+  return matches;
+}
+
+// Fallbacks for near-misses, from strictest to loosest
+const FALLBACK_STRATEGIES: Array<{
+  strategy: Exclude<MatchStrategy, "exact">;
+  find: (content: string, oldString: string, newString: string) => FuzzyMatch[];
+}> = [
+  { strategy: "line-endings", find: matchLineEndings },
+  {
+    strategy: "trimmed-lines",
+    find: (content, oldString, newString) =>
+      matchLines(content, oldString, newString, (line) => line.trimEnd(), false),
+  },
+  {
+    strategy: "indentation",
+    find: (content, oldString, newString) =>
+      matchLines(content, oldString, newString, (line) => line.trim(), true),
+  },
+];
+
+// Lowercase with runs of whitespace collapsed, for loose comparison
+function simplify(line: string): string {
+  return line.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Lines that look like the start of old_string, to help the model fix it
+function findSimilarLines(content: string, oldString: string): string {
+  const firstLine = oldString.split("\n").find((line) => line.trim());
+  if (!firstLine) return "";
+  const first = simplify(firstLine);
+
+  const similarLines = content
+    .split("\n")
+    .map((line, i) => ({ line: line.replace(/\r$/, ""), num: i + 1 }))
+    .filter(({ line }) => {
+      const lineLower = simplify(line);
+      return lineLower.length > 0 && (lineLower.includes(first) || first.includes(lineLower));
+    })
+    .slice(0, 3);
+
+  if (similarLines.length === 0) return "";
+  return (
+    "\n\nSimilar lines found:\n" +
+    similarLines.map(({ line, num }) => `  Line ${num}: ${line.slice(0, 100)}`).join("\n")
+  );
+}
+
+/**
+ * Apply a single find/replace to content (shared with multi_edit). An exact
+ * match is tried first; otherwise old_string may match after normalizing
+ * line endings, trailing whitespace or indentation, but only in one place.
+ */
+export function applyEdit(
+  content: string,
+  oldString: string,
+  newString: string,
+  replaceAll: boolean,
+  filePath: string,
+): EditApplication {
+  if (!oldString) {
+    return { ok: false, error: "Error: old_string must not be empty" };
+  }
+
+  if (content.includes(oldString)) {
+    // Count occurrences
+    const occurrences = content.split(oldString).length - 1;
+
+    if (occurrences > 1 && !replaceAll) {
+      return {
+        ok: false,
+        error: `Error: Found ${occurrences} occurrences of the text. Set replace_all=true to replace all, or provide more context to make the match unique.`,
+      };
+    }
+
+    // Create new content
+    const newContent = replaceAll
+      ? content.split(oldString).join(newString)
+      : content.replace(oldString, () => newString);
+
+    return {
+      ok: true,
+      content: newContent,
+      replaced: replaceAll ? occurrences : 1,
+      strategy: "exact",
+    };
+  }
+
+  for (const { strategy, find } of FALLBACK_STRATEGIES) {
+    const matches = find(content, oldString, newString);
+    if (matches.length === 0) continue;
+    if (matches.length > 1) {
+      return {
+        ok: false,
+        error: `Error: old_string does not match exactly, and matches ${matches.length} places ${STRATEGY_NOTES[strategy]}. Provide the exact text or more context to make the match unique.`,
+      };
+    }
+
+    const [{ start, end, replacement }] = matches;
+    return {
+      ok: true,
+      content: content.slice(0, start) + replacement + content.slice(end),
+      replaced: 1,
+      strategy,
+    };
+  }
+
+  return {
+    ok: false,
+    error: `Error: Could not find the specified text in ${filePath}${findSimilarLines(content, oldString)}\n\nMake sure the old_string matches exactly, including whitespace and indentation.`,
+  };
+}
+
 async function execute(
   rawArgs: Record<string, unknown>,
   ctx: ToolContext,
@@ -34,56 +283,24 @@ async function execute(
     : path.resolve(ctx.workingDir, file_path);
 
   try {
-    // Read current content
-    const content = await fs.readFile(resolvedPath, "utf-8");
-
-    // Check if old_string exists
-    if (!content.includes(old_string)) {
-      // Try to find similar text
-      const lines = content.split("\n");
-      const searchLower = old_string.toLowerCase().trim();
-
-      const similarLines = lines
-        .map((line, i) => ({ line, num: i + 1 }))
-        .filter(({ line }) => {
-          const lineLower = line.toLowerCase().trim();
-          // Check for partial match
-          return (
-            lineLower.includes(searchLower.slice(0, 20)) ||
-            searchLower.includes(lineLower.slice(0, 20))
-          );
-        })
-        .slice(0, 3);
-
-      let hint = "";
-      if (similarLines.length > 0) {
-        hint =
-          "\n\nSimilar lines found:\n" +
-          similarLines
-            .map(({ line, num }) => `  Line ${num}: ${line.slice(0, 100)}`)
-            .join("\n");
-      }
-
-      return {
-        output: `Error: Could not find the specified text in ${resolvedPath}${hint}\n\nMake sure the old_string matches exactly, including whitespace and indentation.`,
-        isError: true,
-      };
+    // The model must have seen the current contents
+    const stale = await ctx.state?.fileReads?.check(resolvedPath);
+    if (stale) {
+      return { output: stale, isError: true };
     }
 
-    // Count occurrences
-    const occurrences = content.split(old_string).length - 1;
+    // Read current content
+    const content = await fs.readFile(resolvedPath, "utf-8");
 
-    if (occurrences > 1 && !replace_all) {
+    // Find and replace
+    const applied = applyEdit(content, old_string, new_string, replace_all, resolvedPath);
+    if (!applied.ok) {
       return {
-        output: `Error: Found ${occurrences} occurrences of the text. Set replace_all=true to replace all, or provide more context to make the match unique.`,
+        output: applied.error,
         isError: true,
       };
     }
-
-    // Create new content
-    const newContent = replace_all
-      ? content.split(old_string).join(new_string)
-      : content.replace(old_string, new_string);
+    const newContent = applied.content;
 
     // Generate diff for preview
     const diff = createTwoFilesPatch(
@@ -96,25 +313,39 @@ async function execute(
     );
 
     // Ask permission
-    const allowed = await askPermission(
-      "edit",
-      `Edit file: ${resolvedPath}\n\n${diff}`,
-    );
+    const permission = await checkPermission({
+      tool: "edit",
+      subject: resolvedPath,
+      details: `Edit file: ${resolvedPath}\n\n${diff}`,
+      defaultDecision: "ask",
+      workingDir: ctx.workingDir,
+      preApproved: ctx.hookApproved,
+    });
 
-    if (!allowed) {
+    if (!permission.allowed) {
       return {
-        output: "Permission denied by user",
+        output: permission.message || "Permission denied",
         isError: true,
       };
     }
 
-    // Write changes
-    await fs.writeFile(resolvedPath, newContent, "utf-8");
+    // The file may have changed while the prompt was open
+    const changed = await ctx.state?.fileReads?.check(resolvedPath);
+    if (changed) {
+      return { output: changed, isError: true };
+    }
 
-    const replacedCount = replace_all ? occurrences : 1;
+    // Save the previous contents for /undo, then write changes
+    await ctx.state?.checkpoints?.snapshot(resolvedPath);
+    await fs.writeFile(resolvedPath, newContent, "utf-8");
+    await ctx.state?.fileReads?.record(resolvedPath, newContent);
 
     return {
-      output: `Successfully edited ${resolvedPath}\nReplaced ${replacedCount} occurrence(s)\n\n${diff}`,
+      output:
+        `Successfully edited ${resolvedPath}\nReplaced ${applied.replaced} occurrence(s)` +
+        (applied.strategy !== "exact" ? ` (${formatMatchNote(applied.strategy)})` : "") +
+        `\n\n${diff}`,
+      writtenFiles: [resolvedPath],
     };
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
@@ -136,9 +367,11 @@ export const editTool: ToolDefinition = {
   name: "edit",
   description:
     "Edit a file by finding and replacing text. " +
-    "The old_string must match exactly (including whitespace). " +
+    "The old_string should match exactly (including whitespace); if it doesn't, a unique match " +
+    "that differs only in line endings, trailing whitespace or indentation is used instead. " +
     "Shows a diff preview and asks for confirmation before applying changes. " +
-    "Use replace_all=true to replace all occurrences.",
+    "Use replace_all=true to replace all occurrences. " +
+    "The file must have been read first and not changed since.",
   parameters,
   execute,
 };
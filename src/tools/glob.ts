@@ -1,8 +1,10 @@
 import { z } from "zod";
-import { glob } from "glob";
 import * as path from "path";
 import * as fs from "fs/promises";
 import { type ToolDefinition, type ToolContext, type ToolResult } from "../types.js";
+import { getConfig } from "../config.js";
+import { checkPermission } from "../permission.js";
+import { listFiles } from "../search/index.js";
 
 const parameters = z.object({
   pattern: z.string().describe("Glob pattern to match files (e.g., '**/*.ts', 'src/*.js')"),
@@ -17,6 +19,7 @@ type GlobParams = z.infer<typeof parameters>;
 async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
   const args = rawArgs as GlobParams;
   const { pattern, directory } = args;
+  const config = getConfig().tools;
 
   // Resolve directory
   const searchDir = directory
@@ -25,6 +28,21 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
       : path.resolve(ctx.workingDir, directory)
     : ctx.workingDir;
 
+  const permission = await checkPermission({
+    tool: "glob",
+    subject: searchDir,
+    details: `Search ${searchDir} for "${pattern}"`,
+    defaultDecision: "allow",
+    workingDir: ctx.workingDir,
+    preApproved: ctx.hookApproved,
+  });
+  if (!permission.allowed) {
+    return {
+      output: permission.message || "Permission denied",
+      isError: true,
+    };
+  }
+
   try {
     // Check if directory exists
     const stat = await fs.stat(searchDir);
@@ -35,20 +53,8 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
       };
     }
 
-    // Run glob search
-    const matches = await glob(pattern, {
-      cwd: searchDir,
-      absolute: true,
-      nodir: true, // Only match files, not directories
-      ignore: [
-        "**/node_modules/**",
-        "**/.git/**",
-        "**/dist/**",
-        "**/build/**",
-        "**/.next/**",
-        "**/coverage/**",
-      ],
-    });
+    // Run glob search (files only)
+    const matches = await listFiles(pattern, searchDir);
 
     if (matches.length === 0) {
       return {
@@ -72,7 +78,7 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
     filesWithStats.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
 
     // Limit results
-    const maxResults = 100;
+    const maxResults = config.glob.maxResults;
     const limitedFiles = filesWithStats.slice(0, maxResults);
 
     // Format output
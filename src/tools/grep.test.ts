@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+vi.mock("../search/scan.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../search/scan.js")>();
+  return { ...actual, scanSearch: vi.fn(actual.scanSearch) };
+});
+
+const { getConfig } = await import("../config.js");
+const { findRipgrep } = await import("../search/ripgrep.js");
+const { scanSearch } = await import("../search/scan.js");
+const { grepTool } = await import("./grep.js");
+
+// ripgrep from @vscode/ripgrep or PATH, if this machine has it
+const rg = await findRipgrep();
+
+let dir: string;
+let backend: "ripgrep" | "scanner";
+
+async function grep(args: Record<string, unknown>): Promise<string> {
+  vi.mocked(scanSearch).mockClear();
+  const result = await grepTool.execute({ directory: dir, ...args }, { workingDir: dir });
+  // Without rg, a ripgrep search quietly uses the scanner; make sure the backend under test ran
+  expect(scanSearch).toHaveBeenCalledTimes(backend === "scanner" ? 1 : 0);
+  return result.output;
+}
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "karyo-grep-"));
+  const lines = Array.from({ length: 12 }, (_, i) => (i % 4 === 0 ? `match ${i + 1}` : `line ${i + 1}`));
+  await fs.writeFile(path.join(dir, "a.txt"), lines.join("\n") + "\n");
+  await fs.writeFile(path.join(dir, "b.ts"), "const match = 1;\n");
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// Both search backends give the same output; ripgrep is skipped where it isn't installed
+const backends = [
+  { name: "ripgrep", ripgrep: "auto", skip: !rg },
+  { name: "scanner", ripgrep: false, skip: false },
+] as const;
+
+for (const { name, ripgrep, skip } of backends) {
+  describe.skipIf(skip)(`grep (${name})`, () => {
+    beforeAll(() => {
+      backend = name;
+      getConfig().tools.search.ripgrep = ripgrep;
+    });
+
+    it("prints matches with line numbers", async () => {
+      expect(await grep({ pattern: "match", include: "*.txt" })).toBe(
+        `${dir}/a.txt:\n  1: match 1\n  5: match 5\n  9: match 9`
+      );
+    });
+
+    it("adds context lines and separates groups", async () => {
+      expect(await grep({ pattern: "match", include: "*.txt", "-A": 1 })).toBe(
+        [
+          `${dir}/a.txt:`,
+          "  1: match 1",
+          "  2- line 2",
+          "  --",
+          "  5: match 5",
+          "  6- line 6",
+          "  --",
+          "  9: match 9",
+          "  10- line 10",
+        ].join("\n")
+      );
+    });
+
+    it("merges overlapping context", async () => {
+      expect(await grep({ pattern: "match [15]$", include: "*.txt", "-C": 2 })).toBe(
+        [
+          `${dir}/a.txt:`,
+          "  1: match 1",
+          "  2- line 2",
+          "  3- line 3",
+          "  4- line 4",
+          "  5: match 5",
+          "  6- line 6",
+          "  7- line 7",
+        ].join("\n")
+      );
+    });
+
+    it("pages through matches", async () => {
+      const output = await grep({ pattern: "match", include: "*.txt", head_limit: 1, offset: 1 });
+      expect(output).toBe(
+        `${dir}/a.txt:\n  5: match 5\n\n` +
+          "[Showing matches 2-2 of 3; 1 more left out. Use offset 2 for the next page or refine your pattern.]"
+      );
+    });
+
+    it("lists files and counts", async () => {
+      expect(await grep({ pattern: "match", output_mode: "files_with_matches" })).toBe(
+        `${dir}/a.txt\n${dir}/b.ts`
+      );
+      expect(await grep({ pattern: "match", output_mode: "count", type: "ts" })).toBe(
+        `${dir}/b.ts: 1\n\nTotal: 1 matching lines in 1 files`
+      );
+    });
+
+    it("reports an offset past the end", async () => {
+      expect(await grep({ pattern: "match", offset: 10 })).toBe("No matches at offset 10; there are only 4.");
+    });
+  });
+}
@@ -1,8 +1,36 @@
 import { z } from "zod";
 import * as fs from "fs/promises";
 import * as path from "path";
-import { glob } from "glob";
 import { type ToolDefinition, type ToolContext, type ToolResult } from "../types.js";
+import { getConfig } from "../config.js";
+import { checkPermission } from "../permission.js";
+import { grepFiles, type Match } from "../search/index.js";
+
+// File extensions of the languages the type parameter accepts (ripgrep's names)
+const FILE_TYPES: Record<string, string[]> = {
+  c: [".c", ".h"],
+  cpp: [".cpp", ".cc", ".cxx", ".c++", ".hpp", ".hh", ".hxx", ".h"],
+  cs: [".cs"],
+  css: [".css", ".scss", ".sass", ".less"],
+  go: [".go"],
+  html: [".html", ".htm"],
+  java: [".java"],
+  js: [".js", ".jsx", ".mjs", ".cjs"],
+  json: [".json", ".jsonc"],
+  kotlin: [".kt", ".kts"],
+  md: [".md", ".mdx", ".markdown"],
+  php: [".php"],
+  py: [".py", ".pyi"],
+  ruby: [".rb", ".rake", ".gemspec"],
+  rust: [".rs"],
+  scala: [".scala", ".sc"],
+  sh: [".sh", ".bash", ".zsh"],
+  sql: [".sql"],
+  swift: [".swift"],
+  toml: [".toml"],
+  ts: [".ts", ".tsx", ".mts", ".cts"],
+  yaml: [".yaml", ".yml"],
+};
 
 const parameters = z.object({
   pattern: z.string().describe("Regular expression pattern to search for"),
@@ -14,19 +42,98 @@ const parameters = z.object({
     .string()
     .optional()
     .describe("Glob pattern to filter files (e.g., '*.ts', '*.{js,jsx}')"),
+  type: z
+    .enum(Object.keys(FILE_TYPES) as [string, ...string[]])
+    .optional()
+    .describe("Only search files of this language (e.g., 'ts', 'py'); combines with include"),
+  case_insensitive: z
+    .boolean()
+    .optional()
+    .describe("Ignore case when matching (default: case-sensitive)"),
+  multiline: z
+    .boolean()
+    .optional()
+    .describe("Match across lines: the pattern runs on whole files and '.' also matches newlines"),
+  output_mode: z
+    .enum(["content", "files_with_matches", "count"])
+    .optional()
+    .describe(
+      "'content' shows matching lines (default), 'files_with_matches' only file paths, " +
+        "'count' the number of matching lines per file"
+    ),
+  "-A": z.number().int().nonnegative().optional().describe("Lines of context after each match"),
+  "-B": z.number().int().nonnegative().optional().describe("Lines of context before each match"),
+  "-C": z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Lines of context before and after each match"),
+  head_limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Show at most this many matches, files or counts (defaults to the configured maximum)"),
+  offset: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Skip this many matches, files or counts first, to page through results"),
 });
 
 type GrepParams = z.infer<typeof parameters>;
 
-interface Match {
-  file: string;
-  line: number;
-  content: string;
+// Matching lines of one file with their context, ripgrep style:
+// "12: match", "13- context", "--" between separate groups.
+// The file is read again, so it may have changed since the search.
+async function formatContent(
+  file: string,
+  matches: Match[],
+  before: number,
+  after: number
+): Promise<string[]> {
+  const maxLineLength = getConfig().tools.grep.maxLineLength;
+  let lines: string[];
+  try {
+    lines = (await fs.readFile(file, "utf-8")).split("\n");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [`${file}: (could not be read again: ${message})`];
+  }
+  // No line after a final newline
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  const output = [`${file}:`];
+
+  let printed = 0;
+  let missing = 0;
+  for (const match of matches) {
+    if (match.line > lines.length) {
+      missing++;
+      continue;
+    }
+    const from = Math.max(match.line - before, printed + 1);
+    const to = Math.min(match.endLine + after, lines.length);
+    if (printed > 0 && from > printed + 1 && before + after > 0) output.push("  --");
+    for (let n = from; n <= to; n++) {
+      const separator = n >= match.line && n <= match.endLine ? ":" : "-";
+      output.push(`  ${n}${separator} ${(lines[n - 1] ?? "").trimEnd().slice(0, maxLineLength)}`);
+    }
+    printed = Math.max(printed, to);
+  }
+  if (missing > 0) {
+    output.push(`  (${missing} match(es) past the end of the file; it changed since the search)`);
+  }
+  return output;
 }
 
 async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
   const args = rawArgs as GrepParams;
-  const { pattern, directory, include } = args;
+  const { pattern, directory, include, type } = args;
+  const mode = args.output_mode ?? "content";
+  const multiline = args.multiline ?? false;
+  const config = getConfig().tools;
 
   // Resolve directory
   const searchDir = directory
@@ -35,11 +142,25 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
       : path.resolve(ctx.workingDir, directory)
     : ctx.workingDir;
 
+  const permission = await checkPermission({
+    tool: "grep",
+    subject: searchDir,
+    details: `Search ${searchDir} for "${pattern}"`,
+    defaultDecision: "allow",
+    workingDir: ctx.workingDir,
+    preApproved: ctx.hookApproved,
+  });
+  if (!permission.allowed) {
+    return {
+      output: permission.message || "Permission denied",
+      isError: true,
+    };
+  }
+
   try {
-    // Compile regex
-    let regex: RegExp;
+    // Check the pattern (ripgrep accepts a slightly different syntax)
     try {
-      regex = new RegExp(pattern, "gi");
+      new RegExp(pattern, multiline ? "gms" : "");
     } catch (e) {
       return {
         output: `Error: Invalid regular expression "${pattern}": ${e instanceof Error ? e.message : String(e)}`,
@@ -47,101 +168,96 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
       };
     }
 
-    // Find files to search
-    const filePattern = include || "**/*";
-    const files = await glob(filePattern, {
-      cwd: searchDir,
-      absolute: true,
-      nodir: true,
-      ignore: [
-        "**/node_modules/**",
-        "**/.git/**",
-        "**/dist/**",
-        "**/build/**",
-        "**/.next/**",
-        "**/coverage/**",
-        "**/*.min.js",
-        "**/*.map",
-        "**/package-lock.json",
-        "**/yarn.lock",
-        "**/pnpm-lock.yaml",
-      ],
+    // Search every file up to tools.search.maxCount matches, so the number of
+    // results left out is exact
+    const search = await grepFiles({
+      pattern,
+      dir: searchDir,
+      include,
+      extensions: type ? FILE_TYPES[type] : undefined,
+      caseInsensitive: args.case_insensitive ?? false,
+      multiline,
+      signal: ctx.abortSignal,
     });
+    const results = search.files;
 
-    // Binary extensions to skip
-    const binaryExtensions = new Set([
-      ".png", ".jpg", ".jpeg", ".gif", ".bmp", ".ico", ".webp",
-      ".pdf", ".zip", ".tar", ".gz", ".rar", ".7z",
-      ".exe", ".dll", ".so", ".dylib",
-      ".mp3", ".mp4", ".avi", ".mov", ".wav",
-      ".ttf", ".otf", ".woff", ".woff2",
-    ]);
-
-    const matches: Match[] = [];
-    const maxMatches = 100;
-    const maxFileSize = 1024 * 1024; // 1MB
-
-    // Search files
-    for (const file of files) {
-      if (matches.length >= maxMatches) break;
-
-      const ext = path.extname(file).toLowerCase();
-      if (binaryExtensions.has(ext)) continue;
-
-      try {
-        const stat = await fs.stat(file);
-        if (stat.size > maxFileSize) continue;
-
-        const content = await fs.readFile(file, "utf-8");
-        const lines = content.split("\n");
-
-        for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
-          if (regex.test(lines[i])) {
-            matches.push({
-              file,
-              line: i + 1,
-              content: lines[i].trim().slice(0, 200), // Truncate long lines
-            });
-          }
-          // Reset regex lastIndex for global flag
-          regex.lastIndex = 0;
-        }
-      } catch {
-        // Skip files that can't be read
-        continue;
-      }
+    // Files the regex was stopped on (catastrophic backtracking)
+    let skipped = "";
+    if (search.timedOut.length > 0) {
+      const seconds = config.search.regexTimeout / 1000;
+      const listed = search.timedOut.slice(0, 5).join(", ");
+      const others = search.timedOut.length > 5 ? ` and ${search.timedOut.length - 5} more` : "";
+      skipped =
+        `\n\n[Skipped ${search.timedOut.length} file(s) on which the pattern ran longer than ` +
+        `${seconds}s: ${listed}${others}. Simplify the pattern to search them.]`;
     }
 
-    if (matches.length === 0) {
+    if (results.length === 0) {
       return {
-        output: `No matches found for pattern "${pattern}" in ${searchDir}`,
+        output: `No matches found for pattern "${pattern}" in ${searchDir}${skipped}`,
       };
     }
 
-    // Group matches by file
-    const groupedMatches = new Map<string, Match[]>();
-    for (const match of matches) {
-      const existing = groupedMatches.get(match.file) || [];
-      existing.push(match);
-      groupedMatches.set(match.file, existing);
-    }
+    const offset = args.offset ?? 0;
+    const limit = args.head_limit ?? config.grep.maxMatches;
 
-    // Format output
-    const lines: string[] = [];
-    for (const [file, fileMatches] of groupedMatches) {
-      lines.push(`\n${file}:`);
-      for (const match of fileMatches) {
-        lines.push(`  ${match.line}: ${match.content}`);
+    // Page through matches in content mode and through files otherwise
+    let lines: string[] = [];
+    let total: number;
+    let unit: string;
+    if (mode === "content") {
+      const entries = results.flatMap((r) => r.matches.map((match) => ({ file: r.file, match })));
+      total = entries.length;
+      unit = "matches";
+
+      const page = new Map<string, Match[]>();
+      for (const { file, match } of entries.slice(offset, offset + limit)) {
+        page.set(file, [...(page.get(file) ?? []), match]);
+      }
+      const before = args["-B"] ?? args["-C"] ?? 0;
+      const after = args["-A"] ?? args["-C"] ?? 0;
+      for (const [file, matches] of page) {
+        if (lines.length > 0) lines.push("");
+        lines.push(...(await formatContent(file, matches, before, after)));
       }
+    } else {
+      total = results.length;
+      unit = "files";
+      const page = results.slice(offset, offset + limit);
+      lines =
+        mode === "count"
+          ? page.map((r) => `${r.file}: ${r.count}`)
+          : page.map((r) => r.file);
+    }
+
+    if (offset >= total) {
+      return { output: `No ${unit} at offset ${offset}; there are only ${total}.` };
     }
 
-    let output = lines.join("\n").trim();
+    let output = lines.join("\n");
 
-    if (matches.length >= maxMatches) {
-      output += `\n\n[Showing first ${maxMatches} matches. Refine your pattern for more specific results.]`;
+    // Totals are lower bounds when the search stopped early
+    const atLeast = search.truncated ? "at least " : "";
+
+    if (mode === "count") {
+      const lineCount = results.reduce((sum, r) => sum + r.count, 0);
+      output += `\n\nTotal: ${atLeast}${lineCount} matching lines in ${results.length} files`;
+    }
+
+    const shown = Math.min(limit, total - offset);
+    const remaining = total - offset - shown;
+    if (offset > 0 || remaining > 0 || search.truncated) {
+      output += `\n\n[Showing ${unit} ${offset + 1}-${offset + shown} of ${atLeast}${total}`;
+      if (remaining > 0) {
+        output += `; ${atLeast}${remaining} more left out. Use offset ${offset + shown} for the next page or refine your pattern.]`;
+      } else if (search.truncated) {
+        output += `; the search stopped after ${config.search.maxCount} matches. Refine your pattern to see the rest.]`;
+      } else {
+        output += ".]";
+      }
     }
 
-    return { output };
+    return { output: output + skipped };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     return {
@@ -154,9 +270,12 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
 export const grepTool: ToolDefinition = {
   name: "grep",
   description:
-    "Search for a pattern in files using regular expressions. " +
-    "Returns matching lines with file paths and line numbers. " +
-    "Use the 'include' parameter to filter by file extension (e.g., '*.ts').",
+    "Search for a pattern in files using regular expressions (case-sensitive unless " +
+    "case_insensitive is set). Returns matching lines with file paths and line numbers; " +
+    "-A/-B/-C add context lines, and output_mode 'files_with_matches' or 'count' returns " +
+    "only file paths or match counts. Use 'include' (e.g., '*.ts') or 'type' (e.g., 'py') " +
+    "to filter files, 'multiline' for patterns that span lines, and head_limit/offset " +
+    "to page through large results.",
   parameters,
   execute,
 };
@@ -1,11 +1,21 @@
 import { tool, type CoreTool } from "ai";
-import type { ToolDefinition, ToolContext } from "../types.js";
+import { z } from "zod";
+import chalk from "chalk";
+import { MCP_TOOL_PREFIX, type ToolDefinition, type ToolContext } from "../types.js";
+import { formatInstructionFile } from "../instructions.js";
+import { getMcpToolDefinitions } from "../mcp.js";
+import { runHooks } from "../hooks.js";
 import { readTool } from "./read.js";
 import { globTool } from "./glob.js";
 import { grepTool } from "./grep.js";
 import { bashTool } from "./bash.js";
 import { writeTool } from "./write.js";
 import { editTool } from "./edit.js";
+import { multiEditTool } from "./multi-edit.js";
+import { applyPatchTool } from "./apply-patch.js";
+import { exitPlanTool } from "./plan.js";
+import { taskTool } from "./task.js";
+import { todoWriteTool, todoReadTool } from "./todo.js";
 
 // All available tool definitions
 const toolDefinitions: ToolDefinition[] = [
@@ -15,21 +25,127 @@ const toolDefinitions: ToolDefinition[] = [
   bashTool,
   writeTool,
   editTool,
+  multiEditTool,
+  applyPatchTool,
+  taskTool,
+  todoWriteTool,
+  todoReadTool,
+  exitPlanTool,
 ];
 
+// Tools exposed in plan mode (bash is limited to read-only commands;
+// sub-agents share the plan mode state, so task is limited the same way)
+const PLAN_MODE_TOOLS = new Set([
+  "read",
+  "glob",
+  "grep",
+  "bash",
+  "task",
+  "todo_write",
+  "todo_read",
+  "exit_plan",
+]);
+
+// Tools that only make sense in plan mode
+const PLAN_ONLY_TOOLS = new Set(["exit_plan"]);
+
+// Check a tool against an allowed list; "mcp__server" allows all of that server's tools
+function isToolAllowed(name: string, allowedTools: string[]): boolean {
+  return allowedTools.some(
+    (allowed) =>
+      allowed === name || (allowed.startsWith(MCP_TOOL_PREFIX) && name.startsWith(allowed + "__"))
+  );
+}
+
+// Tool definitions available for the current mode, optionally limited to some names.
+// MCP tools are left out of plan mode since they may have side effects.
+export function getActiveToolDefinitions(
+  ctx: ToolContext,
+  allowedTools?: string[]
+): ToolDefinition[] {
+  const planMode = ctx.state?.planMode ?? false;
+  const available = planMode
+    ? toolDefinitions.filter((def) => PLAN_MODE_TOOLS.has(def.name))
+    : [
+        ...toolDefinitions.filter((def) => !PLAN_ONLY_TOOLS.has(def.name)),
+        ...getMcpToolDefinitions(),
+      ];
+  return allowedTools ? available.filter((def) => isToolAllowed(def.name, allowedTools)) : available;
+}
+
+// Load nested instruction files for the path a tool worked on.
+// They reach the system prompt next turn; this turn they are appended to the result.
+async function loadNestedInstructions(
+  args: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<string> {
+  const target = args.file_path ?? args.path;
+  if (!ctx.state?.instructions || typeof target !== "string") return "";
+
+  const loaded = await ctx.state.instructions.activateFor(target);
+  if (loaded.length === 0) return "";
+
+  const sections = loaded.map((file) => formatInstructionFile(file, ctx.workingDir));
+  return `\n\nInstructions for this directory (follow them):\n\n${sections.join("\n\n")}`;
+}
+
+// Run a tool with its PreToolUse and PostToolUse hooks (also used outside the
+// agent loop, e.g. for a custom command's !`command` blocks)
+export async function executeWithHooks(
+  def: ToolDefinition,
+  rawArgs: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<string> {
+  const hookOptions = { workingDir: ctx.workingDir, quiet: ctx.quiet };
+
+  const pre = await runHooks("PreToolUse", { tool: def.name, args: rawArgs }, hookOptions);
+  if (pre.blocked) {
+    if (!ctx.quiet) console.log(chalk.yellow(`[Hook] Blocked ${def.name}: ${pre.reason}`));
+    return `Blocked by PreToolUse hook: ${pre.reason}`;
+  }
+
+  // Hooks may rewrite the arguments; built-in tools check them against their schema
+  let args = rawArgs;
+  if (pre.args) {
+    const parsed = def.parameters instanceof z.ZodType ? def.parameters.safeParse(pre.args) : null;
+    if (parsed && !parsed.success) {
+      return `Error: PreToolUse hook returned invalid arguments: ${parsed.error.message}`;
+    }
+    args = parsed ? (parsed.data as Record<string, unknown>) : pre.args;
+  }
+
+  const result = await def.execute(args, pre.approved ? { ...ctx, hookApproved: true } : ctx);
+
+  const post = await runHooks(
+    "PostToolUse",
+    { tool: def.name, args, result: result.output, isError: result.isError ?? false },
+    hookOptions
+  );
+
+  // Changes made by the hooks (e.g. a formatter) are not the user's
+  for (const file of result.writtenFiles ?? []) {
+    await ctx.state?.fileReads?.record(file).catch(() => ctx.state?.fileReads?.forget(file));
+  }
+
+  const notes = [...pre.context, ...post.context].map((text) => `\n\n[Hook context] ${text}`);
+  if (post.blocked) {
+    notes.push(`\n\n[PostToolUse hook feedback] ${post.reason}`);
+  }
+
+  const instructions = await loadNestedInstructions(args, ctx);
+  return result.output + notes.join("") + instructions;
+}
+
 // Convert our tool definitions to AI SDK format
-export function getTools(ctx: ToolContext): Record<string, CoreTool> {
+export function getTools(ctx: ToolContext, allowedTools?: string[]): Record<string, CoreTool> {
   const tools: Record<string, CoreTool> = {};
 
-  for (const def of toolDefinitions) {
+  for (const def of getActiveToolDefinitions(ctx, allowedTools)) {
     tools[def.name] = tool({
       description: def.description,
       parameters: def.parameters,
-      execute: async (args) => {
-        const result = await def.execute(args as Record<string, unknown>, ctx);
-        // AI SDK expects the result to be returned directly
-        return result.output;
-      },
+      // AI SDK expects the result to be returned directly
+      execute: async (args) => executeWithHooks(def, args as Record<string, unknown>, ctx),
     });
   }
 
@@ -53,3 +169,8 @@ export { grepTool } from "./grep.js";
 export { bashTool } from "./bash.js";
 export { writeTool } from "./write.js";
 export { editTool } from "./edit.js";
+export { multiEditTool } from "./multi-edit.js";
+export { applyPatchTool } from "./apply-patch.js";
+export { taskTool } from "./task.js";
+export { todoWriteTool, todoReadTool } from "./todo.js";
+export { exitPlanTool } from "./plan.js";
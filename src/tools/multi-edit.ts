@@ -0,0 +1,154 @@
+import { z } from "zod";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createTwoFilesPatch } from "diff";
+import {
+  type ToolDefinition,
+  type ToolContext,
+  type ToolResult,
+} from "../types.js";
+import { checkPermission } from "../permission.js";
+import { applyEdit, formatMatchNote } from "./edit.js";
+
+const parameters = z.object({
+  file_path: z.string().describe("The absolute path to the file to edit"),
+  edits: z
+    .array(
+      z.object({
+        old_string: z.string().describe("The exact text to find and replace"),
+        new_string: z.string().describe("The text to replace it with"),
+        replace_all: z
+          .boolean()
+          .optional()
+          .describe("Replace all occurrences (default: false, only replace first)"),
+      }),
+    )
+    .min(1)
+    .describe(
+      "Edits to apply in order. Each edit sees the result of the previous ones.",
+    ),
+});
+
+type MultiEditParams = z.infer<typeof parameters>;
+
+async function execute(
+  rawArgs: Record<string, unknown>,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  const args = rawArgs as MultiEditParams;
+  const { file_path, edits } = args;
+
+  // Resolve path
+  const resolvedPath = path.isAbsolute(file_path)
+    ? file_path
+    : path.resolve(ctx.workingDir, file_path);
+
+  try {
+    // The model must have seen the current contents
+    const stale = await ctx.state?.fileReads?.check(resolvedPath);
+    if (stale) {
+      return { output: stale, isError: true };
+    }
+
+    // Read current content
+    const content = await fs.readFile(resolvedPath, "utf-8");
+
+    // Apply every edit in memory first; nothing is written if one fails
+    let newContent = content;
+    let totalReplaced = 0;
+    const notes: string[] = [];
+    for (let i = 0; i < edits.length; i++) {
+      const { old_string, new_string, replace_all = false } = edits[i];
+      const applied = applyEdit(
+        newContent,
+        old_string,
+        new_string,
+        replace_all,
+        resolvedPath,
+      );
+      if (!applied.ok) {
+        return {
+          output: `Edit ${i + 1} of ${edits.length} failed; no changes were made.\n\n${applied.error}`,
+          isError: true,
+        };
+      }
+      newContent = applied.content;
+      totalReplaced += applied.replaced;
+      if (applied.strategy !== "exact") {
+        notes.push(`Edit ${i + 1}: ${formatMatchNote(applied.strategy)}`);
+      }
+    }
+
+    // Generate one combined diff for preview
+    const diff = createTwoFilesPatch(
+      resolvedPath,
+      resolvedPath,
+      content,
+      newContent,
+      "original",
+      "modified",
+    );
+
+    // Ask permission (uses the same rules as edit)
+    const permission = await checkPermission({
+      tool: "edit",
+      subject: resolvedPath,
+      details: `Edit file (${edits.length} edits): ${resolvedPath}\n\n${diff}`,
+      defaultDecision: "ask",
+      workingDir: ctx.workingDir,
+      preApproved: ctx.hookApproved,
+    });
+
+    if (!permission.allowed) {
+      return {
+        output: permission.message || "Permission denied",
+        isError: true,
+      };
+    }
+
+    // The file may have changed while the prompt was open
+    const changed = await ctx.state?.fileReads?.check(resolvedPath);
+    if (changed) {
+      return { output: changed, isError: true };
+    }
+
+    // Save the previous contents for /undo, then write changes
+    await ctx.state?.checkpoints?.snapshot(resolvedPath);
+    await fs.writeFile(resolvedPath, newContent, "utf-8");
+    await ctx.state?.fileReads?.record(resolvedPath, newContent);
+
+    return {
+      output:
+        `Successfully applied ${edits.length} edit(s) to ${resolvedPath}\nReplaced ${totalReplaced} occurrence(s)` +
+        notes.map((note) => `\n${note}`).join("") +
+        `\n\n${diff}`,
+      writtenFiles: [resolvedPath],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {
+        output: `Error: File not found: ${resolvedPath}`,
+        isError: true,
+      };
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      output: `Error editing file: ${message}`,
+      isError: true,
+    };
+  }
+}
+
+export const multiEditTool: ToolDefinition = {
+  name: "multi_edit",
+  description:
+    "Make several find-and-replace edits to one file in a single atomic operation. " +
+    "Edits are applied in order, each to the result of the previous one. " +
+    "If any edit fails to match, none are applied. " +
+    "Shows one combined diff and asks for confirmation before writing. " +
+    "Prefer this over several edit calls to the same file. " +
+    "The file must have been read first and not changed since.",
+  parameters,
+  execute,
+};
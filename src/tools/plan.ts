@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { type ToolDefinition, type ToolContext, type ToolResult } from "../types.js";
+import { askApproval } from "../permission.js";
+
+const parameters = z.object({
+  plan: z
+    .string()
+    .describe("The implementation plan to present to the user (markdown, step by step)"),
+});
+
+type ExitPlanParams = z.infer<typeof parameters>;
+
+async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
+  const args = rawArgs as ExitPlanParams;
+  const { plan } = args;
+
+  if (!ctx.state?.planMode) {
+    return {
+      output: "Not in plan mode. All tools are already available.",
+      isError: true,
+    };
+  }
+
+  const { approved, feedback } = await askApproval("Proposed plan", plan);
+
+  if (!approved) {
+    return {
+      output:
+        "The user did not approve the plan. Stay in plan mode and revise it." +
+        (feedback ? `\n\nUser feedback: ${feedback}` : ""),
+      isError: true,
+    };
+  }
+
+  // Full tool access takes effect when the session continues
+  ctx.state.planMode = false;
+
+  return {
+    output:
+      "The user approved the plan. Plan mode is off. " +
+      "End your turn now; you will be resumed with full tool access to implement the plan.",
+  };
+}
+
+export const exitPlanTool: ToolDefinition = {
+  name: "exit_plan",
+  description:
+    "Present your plan to the user for approval and leave plan mode. " +
+    "Only available in plan mode. Call this once you have explored enough to propose concrete steps.",
+  parameters,
+  execute,
+};
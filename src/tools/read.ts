@@ -2,6 +2,8 @@ import { z } from "zod";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { type ToolDefinition, type ToolContext, type ToolResult } from "../types.js";
+import { getConfig } from "../config.js";
+import { checkPermission } from "../permission.js";
 
 const parameters = z.object({
   file_path: z.string().describe("The absolute path to the file to read"),
@@ -19,13 +21,29 @@ type ReadParams = z.infer<typeof parameters>;
 
 async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
   const args = rawArgs as ReadParams;
-  const { file_path, offset = 1, limit = 2000 } = args;
+  const config = getConfig().tools.read;
+  const { file_path, offset = 1, limit = config.maxLines } = args;
 
   // Resolve path relative to working directory if not absolute
   const resolvedPath = path.isAbsolute(file_path)
     ? file_path
     : path.resolve(ctx.workingDir, file_path);
 
+  const permission = await checkPermission({
+    tool: "read",
+    subject: resolvedPath,
+    details: `Read file: ${resolvedPath}`,
+    defaultDecision: "allow",
+    workingDir: ctx.workingDir,
+    preApproved: ctx.hookApproved,
+  });
+  if (!permission.allowed) {
+    return {
+      output: permission.message || "Permission denied",
+      isError: true,
+    };
+  }
+
   try {
     // Check if file exists
     const stat = await fs.stat(resolvedPath);
@@ -56,6 +74,7 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
 
     // Read file content
     const content = await fs.readFile(resolvedPath, "utf-8");
+    await ctx.state?.fileReads?.record(resolvedPath, content);
     const lines = content.split("\n");
 
     // Apply offset and limit
@@ -70,7 +89,8 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
     const formattedLines = selectedLines.map((line, i) => {
       const lineNum = String(startIndex + i + 1).padStart(lineNumWidth, " ");
       // Truncate very long lines
-      const truncatedLine = line.length > 2000 ? line.slice(0, 2000) + "..." : line;
+      const truncatedLine =
+        line.length > config.maxLineLength ? line.slice(0, config.maxLineLength) + "..." : line;
       return `${lineNum}\t${truncatedLine}`;
     });
 
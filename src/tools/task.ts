@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { type ToolDefinition, type ToolContext, type ToolResult } from "../types.js";
+import { runSubAgent } from "../subagent.js";
+
+const parameters = z.object({
+  description: z.string().describe("Short (3-5 word) description of the task"),
+  prompt: z
+    .string()
+    .describe(
+      "Complete instructions for the sub-agent. It cannot see this conversation, " +
+        "so include all context it needs and say what its report should contain"
+    ),
+  model: z
+    .string()
+    .optional()
+    .describe("Model for the sub-agent (defaults to the configured task model)"),
+});
+
+type TaskParams = z.infer<typeof parameters>;
+
+async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
+  const args = rawArgs as TaskParams;
+  const { description, prompt, model } = args;
+
+  try {
+    const result = await runSubAgent(prompt, { description, ctx, model });
+
+    if (ctx.taskUsage) {
+      ctx.taskUsage.tasks++;
+      ctx.taskUsage.promptTokens += result.usage.promptTokens;
+      ctx.taskUsage.completionTokens += result.usage.completionTokens;
+    }
+
+    const report = result.text.trim() || "(Sub-agent finished without a report)";
+    const note = result.stoppedEarly
+      ? `\n\n[The sub-agent reached its step limit (${result.steps} steps) before finishing]`
+      : "";
+    return { output: report + note };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { output: `Error running task "${description}": ${message}`, isError: true };
+  }
+}
+
+export const taskTool: ToolDefinition = {
+  name: "task",
+  description:
+    "Start a sub-agent for a self-contained task such as searching the codebase or researching a question. " +
+    "It works with its own history and a restricted tool set, and only its final report is returned, " +
+    "which keeps this conversation small. Call task several times in one message to run tasks in parallel.",
+  parameters,
+  execute,
+};
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import {
+  type ToolDefinition,
+  type ToolContext,
+  type ToolResult,
+  type TodoItem,
+} from "../types.js";
+import { formatTodoList, formatTodoProgress, formatTodosForModel } from "../todos.js";
+
+const writeParameters = z.object({
+  todos: z
+    .array(
+      z.object({
+        content: z.string().min(1).describe("What needs to be done, as a short imperative sentence"),
+        status: z.enum(["pending", "in_progress", "completed"]),
+      })
+    )
+    .describe("The complete, updated todo list (replaces the previous list)"),
+});
+
+type TodoWriteParams = z.infer<typeof writeParameters>;
+
+// The session's todo list; created on first use
+function getTodos(ctx: ToolContext): TodoItem[] | undefined {
+  if (!ctx.state) return undefined;
+  ctx.state.todos ??= [];
+  return ctx.state.todos;
+}
+
+async function executeWrite(rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
+  const args = rawArgs as TodoWriteParams;
+  const todos = getTodos(ctx);
+  if (!todos) {
+    return { output: "Error: No session to keep a todo list in", isError: true };
+  }
+
+  const changed = JSON.stringify(todos) !== JSON.stringify(args.todos);
+  // Update in place: the array is shared with the saved session
+  todos.splice(0, todos.length, ...args.todos.map(({ content, status }) => ({ content, status })));
+
+  if (changed && !ctx.quiet) {
+    console.log("\n" + formatTodoList(todos));
+  }
+
+  const inProgress = todos.filter((todo) => todo.status === "in_progress").length;
+  const note =
+    inProgress > 1 ? "\n\nNote: several tasks are in_progress; finish one before starting the next." : "";
+  return {
+    output: `Todo list updated (${formatTodoProgress(todos)}):\n${formatTodosForModel(todos)}${note}`,
+  };
+}
+
+async function executeRead(_rawArgs: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
+  const todos = getTodos(ctx) ?? [];
+  if (todos.length === 0) {
+    return { output: "The todo list is empty." };
+  }
+  return { output: `Todo list (${formatTodoProgress(todos)}):\n${formatTodosForModel(todos)}` };
+}
+
+export const todoWriteTool: ToolDefinition = {
+  name: "todo_write",
+  description:
+    "Create or update your todo list for multi-step work. Always pass the complete list; it replaces " +
+    "the previous one. Use it for tasks with three or more steps: add the steps up front, keep exactly " +
+    "one in_progress, and mark each completed as soon as it is done. The user sees the list.",
+  parameters: writeParameters,
+  execute: executeWrite,
+};
+
+export const todoReadTool: ToolDefinition = {
+  name: "todo_read",
+  description: "Show the current todo list and the status of each item.",
+  parameters: z.object({}),
+  execute: executeRead,
+};
@@ -2,7 +2,7 @@ import { z } from "zod";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { type ToolDefinition, type ToolContext, type ToolResult } from "../types.js";
-import { askPermission } from "../permission.js";
+import { checkPermission } from "../permission.js";
 
 const parameters = z.object({
   file_path: z.string().describe("The absolute path to the file to write"),
@@ -21,6 +21,12 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
     : path.resolve(ctx.workingDir, file_path);
 
   try {
+    // Existing files must have been read, and not changed since
+    const stale = await ctx.state?.fileReads?.check(resolvedPath);
+    if (stale) {
+      return { output: stale, isError: true };
+    }
+
     // Check if file already exists
     let fileExists = false;
     try {
@@ -30,32 +36,45 @@ async function execute(rawArgs: Record<string, unknown>, ctx: ToolContext): Prom
       fileExists = false;
     }
 
-    // Ask permission if overwriting
-    if (fileExists) {
-      const allowed = await askPermission(
-        "write",
-        `Overwrite existing file: ${resolvedPath}`
-      );
-      if (!allowed) {
-        return {
-          output: "Permission denied by user",
-          isError: true,
-        };
-      }
+    // Check permission rules (overwriting asks by default)
+    const permission = await checkPermission({
+      tool: "write",
+      subject: resolvedPath,
+      details: fileExists
+        ? `Overwrite existing file: ${resolvedPath}`
+        : `Create file: ${resolvedPath}`,
+      defaultDecision: fileExists ? "ask" : "allow",
+      workingDir: ctx.workingDir,
+      preApproved: ctx.hookApproved,
+    });
+    if (!permission.allowed) {
+      return {
+        output: permission.message || "Permission denied",
+        isError: true,
+      };
+    }
+
+    // The file may have changed while the prompt was open
+    const changed = await ctx.state?.fileReads?.check(resolvedPath);
+    if (changed) {
+      return { output: changed, isError: true };
     }
 
     // Ensure parent directory exists
     const dir = path.dirname(resolvedPath);
     await fs.mkdir(dir, { recursive: true });
 
-    // Write file
+    // Save the previous contents for /undo, then write file
+    await ctx.state?.checkpoints?.snapshot(resolvedPath);
     await fs.writeFile(resolvedPath, content, "utf-8");
+    await ctx.state?.fileReads?.record(resolvedPath, content);
 
     const lines = content.split("\n").length;
     const bytes = Buffer.byteLength(content, "utf-8");
 
     return {
       output: `Successfully wrote ${lines} lines (${bytes} bytes) to ${resolvedPath}`,
+      writtenFiles: [resolvedPath],
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -71,7 +90,8 @@ export const writeTool: ToolDefinition = {
   description:
     "Write content to a file. Creates the file if it doesn't exist, " +
     "or overwrites it if it does (with user confirmation). " +
-    "Parent directories are created automatically if needed.",
+    "Parent directories are created automatically if needed. " +
+    "Existing files must have been read first and not changed since.",
   parameters,
   execute,
 };
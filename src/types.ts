@@ -1,17 +1,63 @@
 import { z } from "zod";
-import type { CoreMessage } from "ai";
+import type { CoreMessage, Schema } from "ai";
+import type { CheckpointStore } from "./checkpoint.js";
+import type { InstructionStore } from "./instructions.js";
+import type { FileReadStore } from "./file-reads.js";
+import type { SessionCost } from "./cost.js";
+
+// Status of an item on the agent's todo list
+export type TodoStatus = "pending" | "in_progress" | "completed";
+
+// One task on the agent's todo list
+export interface TodoItem {
+  content: string;
+  status: TodoStatus;
+}
+
+// Mutable state that lives for a whole interactive session (across turns)
+export interface AgentState {
+  // Read-only exploration until the user approves a plan
+  planMode: boolean;
+  // Previous file contents for /undo and /rewind
+  checkpoints?: CheckpointStore;
+  // KARYO.md / AGENTS.md instructions for the system prompt
+  instructions?: InstructionStore;
+  // Files the agent has seen, to refuse changes to files it hasn't (or that changed since)
+  fileReads?: FileReadStore;
+  // The agent's todo list (shared with the session so it is saved)
+  todos?: TodoItem[];
+  // Spending of the session's model calls (shared with the session)
+  cost?: SessionCost;
+}
+
+// Token usage of the sub-agents started by the task tool during one turn
+export interface TaskUsage {
+  tasks: number;
+  promptTokens: number;
+  completionTokens: number;
+}
 
 // Tool context passed to every tool execution
 export interface ToolContext {
   workingDir: string;
   abortSignal?: AbortSignal;
+  // Headless mode: tools must not write to the console
+  quiet?: boolean;
+  state?: AgentState;
+  // Model of the running agent (sub-agents default to it)
+  model?: string;
+  // Collects sub-agent usage for the turn's stats line
+  taskUsage?: TaskUsage;
+  // A PreToolUse hook approved this call, so it runs without asking
+  hookApproved?: boolean;
 }
 
 // Tool definition with Zod schema validation
 export interface ToolDefinition {
   name: string;
   description: string;
-  parameters: z.ZodObject<z.ZodRawShape>;
+  // Zod for built-in tools, JSON schema for MCP tools
+  parameters: z.ZodObject<z.ZodRawShape> | Schema;
   execute: (args: Record<string, unknown>, ctx: ToolContext) => Promise<ToolResult>;
 }
 
@@ -19,8 +65,14 @@ export interface ToolDefinition {
 export interface ToolResult {
   output: string;
   isError?: boolean;
+  // Files the tool wrote; recorded as read again after PostToolUse hooks,
+  // which may rewrite them (formatters)
+  writtenFiles?: string[];
 }
 
+// MCP tools are exposed as mcp__<server>__<tool>
+export const MCP_TOOL_PREFIX = "mcp__";
+
 // Re-export AI SDK message type
 export type Message = CoreMessage;
 
@@ -32,109 +84,14 @@ export interface PermissionRequest {
   details: string;
 }
 
-// Provider configuration
-export interface ProviderConfig {
-  id: string;
-  name: string;
-  models: ModelConfig[];
-}
-
-export interface ModelConfig {
-  id: string;
-  name: string;
-  description: string;
-}
-
-// Available providers and their models
-export const PROVIDERS: ProviderConfig[] = [
-  {
-    id: "anthropic",
-    name: "Anthropic",
-    models: [
-      { id: "claude-opus-4-5-20251101", name: "Claude Opus 4.5", description: "Most capable" },
-      { id: "claude-sonnet-4-5-20250929", name: "Claude Sonnet 4.5", description: "Balanced" },
-      { id: "claude-sonnet-4-20250514", name: "Claude Sonnet 4", description: "Fast and capable" },
-      { id: "claude-haiku-3-5-20241022", name: "Claude Haiku 3.5", description: "Fastest" },
-    ],
-  },
-  {
-    id: "google",
-    name: "Google",
-    models: [
-      { id: "gemini-2.0-flash", name: "Gemini 2.0 Flash", description: "Fast multimodal" },
-      { id: "gemini-2.0-pro", name: "Gemini 2.0 Pro", description: "Advanced reasoning" },
-      { id: "gemini-1.5-pro", name: "Gemini 1.5 Pro", description: "Long context" },
-    ],
-  },
-  {
-    id: "openai",
-    name: "OpenAI",
-    models: [
-      { id: "gpt-4o", name: "GPT-4o", description: "Most capable" },
-      { id: "gpt-4o-mini", name: "GPT-4o Mini", description: "Fast and affordable" },
-      { id: "o1", name: "o1", description: "Advanced reasoning" },
-      { id: "o1-mini", name: "o1 Mini", description: "Fast reasoning" },
-    ],
-  },
-];
-
-// Get all models flattened
-export function getAllModels() {
-  return PROVIDERS.flatMap((p) =>
-    p.models.map((m) => ({
-      ...m,
-      provider: p.name,
-      providerId: p.id,
-    }))
-  );
-}
-
-// Detect provider from model ID
-export function getProviderId(modelId: string): string {
-  if (modelId.startsWith("claude")) return "anthropic";
-  if (modelId.startsWith("gemini")) return "google";
-  if (modelId.startsWith("gpt") || modelId.startsWith("o1")) return "openai";
-  throw new Error(`Unknown model: ${modelId}`);
-}
-
-// Model context and output limits
-export interface ModelLimits {
-  context: number;
-  output: number;
-}
-
-export const MODEL_LIMITS: Record<string, ModelLimits> = {
-  // Anthropic - 200k context
-  "claude-opus-4-5-20251101": { context: 200000, output: 32000 },
-  "claude-sonnet-4-5-20250929": { context: 200000, output: 32000 },
-  "claude-sonnet-4-20250514": { context: 200000, output: 32000 },
-  "claude-haiku-3-5-20241022": { context: 200000, output: 32000 },
-  // Google - large context windows
-  "gemini-2.0-flash": { context: 1000000, output: 8192 },
-  "gemini-2.0-pro": { context: 2000000, output: 8192 },
-  "gemini-1.5-pro": { context: 2000000, output: 8192 },
-  // OpenAI
-  "gpt-4o": { context: 128000, output: 16384 },
-  "gpt-4o-mini": { context: 128000, output: 16384 },
-  "o1": { context: 200000, output: 100000 },
-  "o1-mini": { context: 128000, output: 65536 },
-};
+// Outcome of a permission rule
+export type PermissionDecision = "allow" | "ask" | "deny";
 
-// Get model limits with fallback defaults
-export function getModelLimits(modelId: string): ModelLimits {
-  if (MODEL_LIMITS[modelId]) {
-    return MODEL_LIMITS[modelId];
-  }
-  // Fallback based on provider
-  const providerId = getProviderId(modelId);
-  switch (providerId) {
-    case "anthropic":
-      return { context: 200000, output: 32000 };
-    case "google":
-      return { context: 1000000, output: 8192 };
-    case "openai":
-      return { context: 128000, output: 16384 };
-    default:
-      return { context: 100000, output: 8192 };
-  }
+// Parsed permission rule, e.g. bash(npm test:*) or edit(src/**)
+export interface PermissionRule {
+  tool: string;
+  pattern?: string;
+  decision: PermissionDecision;
+  // "command": a custom command's allowed-tools, while it runs
+  source: "config" | "session" | "command";
 }
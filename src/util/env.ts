@@ -0,0 +1,8 @@
+// Replace ${VAR} with environment variables so secrets can stay out of config files
+export function expandEnv(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? "");
+}
+
+export function expandEnvRecord(values: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(values).map(([k, v]) => [k, expandEnv(v)]));
+}
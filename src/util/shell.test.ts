@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseCommand } from "./shell.js";
+
+// Texts of the simple commands a command line runs
+function commands(line: string): string[] {
+  return parseCommand(line).map((part) => part.text);
+}
+
+describe("parseCommand", () => {
+  it("splits lists and pipelines", () => {
+    expect(commands("npm test && git status || echo failed; ls | wc -l")).toEqual([
+      "npm test",
+      "git status",
+      "echo failed",
+      "ls",
+      "wc -l",
+    ]);
+  });
+
+  it("removes quotes and keeps quoted separators in one word", () => {
+    expect(parseCommand(`echo "a && b" 'c;d'`)[0].words).toEqual(["echo", "a && b", "c;d"]);
+  });
+
+  it("extracts command and process substitutions", () => {
+    expect(commands("echo $(rm -rf x) `id` \"$(whoami)\"")).toContain("rm -rf x");
+    expect(commands("diff <(ls a) <(ls b)")).toEqual(
+      expect.arrayContaining(["ls a", "ls b"])
+    );
+  });
+
+  it("unwraps wrapper commands", () => {
+    expect(commands("FOO=1 env -u BAR nice -n 5 timeout 10 /bin/rm -rf build")).toEqual([
+      "rm -rf build",
+    ]);
+    expect(commands("find . -name '*.tmp' -exec rm {} ;")).toContain("rm {}");
+  });
+
+  it("parses sh -c and eval arguments", () => {
+    expect(commands(`bash -c "rm -rf dist && ls"`)).toEqual(
+      expect.arrayContaining(["rm -rf dist", "ls"])
+    );
+    expect(commands("eval rm -rf dist")).toContain("rm -rf dist");
+  });
+
+  it("records redirections", () => {
+    expect(parseCommand("echo hi > out.txt 2>&1")[0].redirects).toEqual(["> out.txt", ">& 1"]);
+  });
+
+  describe("heredocs", () => {
+    it("parses the body as commands when it is fed to a shell", () => {
+      expect(commands("bash <<EOF\nrm -rf /tmp/x\nEOF\necho done")).toEqual([
+        "bash",
+        "rm -rf /tmp/x",
+        "echo done",
+      ]);
+      expect(commands("cat <<'EOF' | sh -s\nrm -rf y\nEOF")).toContain("rm -rf y");
+    });
+
+    it("leaves the body alone when it is data", () => {
+      expect(commands("cat <<'EOF' > notes.txt\nrm -rf y\nEOF")).toEqual(["cat"]);
+      expect(commands("bash script.sh <<EOF\nrm -rf y\nEOF")).toEqual(["bash script.sh"]);
+    });
+
+    it("runs substitutions in an unquoted body", () => {
+      expect(commands("cat <<EOF > f\nhello $(rm z)\nEOF")).toEqual(["cat", "rm z"]);
+      expect(commands("cat <<'EOF' > f\nhello $(rm z)\nEOF")).toEqual(["cat"]);
+    });
+  });
+
+  it("treats command -v as a lookup, not a call", () => {
+    expect(commands("command -v rm")).toEqual(["command -v rm"]);
+    expect(commands("command -V rm")).toEqual(["command -V rm"]);
+    expect(commands("command rm -rf x")).toEqual(["rm -rf x"]);
+  });
+});
@@ -0,0 +1,411 @@
+// A single command with its arguments, after stripping shell syntax
+export interface SimpleCommand {
+  // Command name and arguments (quotes removed, env assignments stripped)
+  words: string[];
+  // Normalized text: words joined by spaces
+  text: string;
+  // Redirection targets, e.g. "> /dev/null"
+  redirects: string[];
+}
+
+// Words that start or structure compound commands but are not commands
+const SHELL_KEYWORDS = new Set([
+  "if", "then", "else", "elif", "fi", "do", "done", "while", "until",
+  "for", "case", "esac", "select", "function", "!", "{", "}", "[[", "]]",
+]);
+
+// Commands that run another command given in their arguments
+const WRAPPER_COMMANDS = new Set(["env", "nohup", "time", "command", "exec", "nice", "timeout", "xargs"]);
+
+// Options of wrapper commands that take a separate value
+const WRAPPER_OPTIONS_WITH_VALUE: Record<string, Set<string>> = {
+  env: new Set(["-u", "--unset", "-C", "--chdir", "-S", "--split-string"]),
+  nice: new Set(["-n", "--adjustment"]),
+  timeout: new Set(["-s", "--signal", "-k", "--kill-after"]),
+  xargs: new Set(["-I", "-i", "-n", "-P", "-L", "-l", "-d", "-E", "-e", "-s", "-a", "--delimiter", "--arg-file", "--max-args", "--max-procs"]),
+};
+
+// Shells whose -c argument is itself a command line
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh"]);
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// A heredoc waiting for its body
+interface PendingHeredoc {
+  delimiter: string;
+  // A quoted delimiter turns off expansion in the body
+  quoted: boolean;
+}
+
+// Raw command collected by the tokenizer before normalization
+interface RawCommand {
+  words: string[];
+  redirects: string[];
+}
+
+/**
+ * Split a shell command line into the simple commands it would run.
+ * Handles &&, ||, ;, pipes, subshells, command substitution, process
+ * substitution, redirections and heredocs. Commands passed to xargs,
+ * find -exec, env-style wrappers, `sh -c` and heredocs fed to a shell are
+ * extracted as well.
+ */
+export function parseCommand(command: string): SimpleCommand[] {
+  const raw: RawCommand[] = [];
+  tokenize(command, raw);
+
+  const result: SimpleCommand[] = [];
+  for (const cmd of raw) {
+    normalize(cmd, result);
+  }
+  return result;
+}
+
+// Find the index of the ")" matching an already consumed "(" (handles quotes and nesting)
+function findClosingParen(input: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      i = end === -1 ? input.length : end;
+    } else if (ch === '"') {
+      i = findClosingDoubleQuote(input, i + 1);
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return input.length;
+}
+
+function findClosingDoubleQuote(input: string, start: number): number {
+  for (let i = start; i < input.length; i++) {
+    if (input[i] === "\\") {
+      i++;
+    } else if (input[i] === "$" && input[i + 1] === "(") {
+      i = findClosingParen(input, i + 2);
+    } else if (input[i] === '"') {
+      return i;
+    }
+  }
+  return input.length;
+}
+
+function findClosingBacktick(input: string, start: number): number {
+  for (let i = start; i < input.length; i++) {
+    if (input[i] === "\\") {
+      i++;
+    } else if (input[i] === "`") {
+      return i;
+    }
+  }
+  return input.length;
+}
+
+// Tokenize a command line into raw commands (nested commands are appended too)
+function tokenize(input: string, out: RawCommand[]): void {
+  let words: string[] = [];
+  let redirects: string[] = [];
+  let word = "";
+  let inWord = false;
+  // Part of the current word was quoted or escaped
+  let quoted = false;
+  // Set when the next word is a redirection target
+  let pendingRedirect: string | null = null;
+  const heredocs: PendingHeredoc[] = [];
+  // Commands of the current line start here in out
+  let lineStart = out.length;
+
+  const endWord = (): void => {
+    if (!inWord) return;
+    if (pendingRedirect !== null) {
+      redirects.push(`${pendingRedirect} ${word}`);
+      if (pendingRedirect === "<<" || pendingRedirect === "<<-") {
+        heredocs.push({ delimiter: word, quoted });
+      }
+      pendingRedirect = null;
+    } else {
+      words.push(word);
+    }
+    word = "";
+    inWord = false;
+    quoted = false;
+  };
+
+  const endCommand = (): void => {
+    endWord();
+    if (words.length > 0 || redirects.length > 0) {
+      out.push({ words, redirects });
+    }
+    words = [];
+    redirects = [];
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    const next = input[i + 1];
+
+    // Quoting
+    if (ch === "\\") {
+      if (next === "\n") {
+        i += 2;
+        continue;
+      }
+      word += next ?? "";
+      inWord = true;
+      quoted = true;
+      i += 2;
+      continue;
+    }
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      const stop = end === -1 ? input.length : end;
+      word += input.slice(i + 1, stop);
+      inWord = true;
+      quoted = true;
+      i = stop + 1;
+      continue;
+    }
+    if (ch === '"') {
+      const end = findClosingDoubleQuote(input, i + 1);
+      const content = input.slice(i + 1, end);
+      // Command substitution still runs inside double quotes
+      extractSubstitutions(content, out);
+      word += content.replace(/\\(["\\$`])/g, "$1");
+      inWord = true;
+      quoted = true;
+      i = end + 1;
+      continue;
+    }
+
+    // Command substitution $(...), arithmetic $((...)) and backticks
+    if (ch === "$" && next === "(") {
+      const end = findClosingParen(input, i + 2);
+      tokenize(input.slice(i + 2, end), out);
+      word += input.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+    if (ch === "`") {
+      const end = findClosingBacktick(input, i + 1);
+      tokenize(input.slice(i + 1, end), out);
+      word += input.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+
+    // Process substitution <(...) and >(...)
+    if ((ch === "<" || ch === ">") && next === "(") {
+      const end = findClosingParen(input, i + 2);
+      tokenize(input.slice(i + 2, end), out);
+      word += input.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+
+    // Subshell or grouping at the start of a word
+    if (ch === "(" && !inWord) {
+      endCommand();
+      const end = findClosingParen(input, i + 1);
+      tokenize(input.slice(i + 1, end), out);
+      i = end + 1;
+      continue;
+    }
+
+    // Comments
+    if (ch === "#" && !inWord) {
+      const end = input.indexOf("\n", i);
+      i = end === -1 ? input.length : end;
+      continue;
+    }
+
+    // Redirections: [n]> [n]>> [n]< >& <& &> &>> << <<< <<-
+    const isFdPrefix = inWord && /^\d+$/.test(word) && pendingRedirect === null;
+    if (ch === ">" || ch === "<" || (ch === "&" && next === ">")) {
+      if (isFdPrefix) {
+        word = "";
+        inWord = false;
+      } else {
+        endWord();
+      }
+      const match = input.slice(i).match(/^(&>>|&>|>>|>\||>&|>|<<<|<<-|<<|<&|<>|<)/);
+      const op = match ? match[1] : ch;
+      i += op.length;
+      // ">&2" and "2>&1" duplicate a descriptor; record them like any target
+      pendingRedirect = op;
+      continue;
+    }
+
+    // Command separators
+    if (ch === ";" || ch === "|" || ch === "&" || ch === "\n") {
+      endCommand();
+      // Consume two-character operators: && || ;; |&
+      if ((ch === "&" && next === "&") || (ch === "|" && (next === "|" || next === "&")) || (ch === ";" && next === ";")) {
+        i += 2;
+      } else {
+        i += 1;
+      }
+
+      // Heredoc bodies follow the line that introduced them
+      if (ch === "\n" && heredocs.length > 0) {
+        const feedsShell = out.slice(lineStart).some(runsStdin);
+        let bodies: Array<{ body: string; quoted: boolean }>;
+        ({ next: i, bodies } = readHeredocs(input, i, heredocs));
+        for (const { body, quoted: literal } of bodies) {
+          // A shell runs the body; otherwise only its substitutions run
+          if (feedsShell) tokenize(body, out);
+          else if (!literal) extractSubstitutions(body, out);
+        }
+      }
+      if (ch === "\n") lineStart = out.length;
+      continue;
+    }
+
+    if (ch === " " || ch === "\t" || ch === "\r") {
+      endWord();
+      i++;
+      continue;
+    }
+
+    word += ch;
+    inWord = true;
+    i++;
+  }
+
+  endCommand();
+}
+
+// Collect commands from substitutions inside a double-quoted string
+function extractSubstitutions(content: string, out: RawCommand[]): void {
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\\") {
+      i++;
+    } else if (content[i] === "$" && content[i + 1] === "(") {
+      const end = findClosingParen(content, i + 2);
+      tokenize(content.slice(i + 2, end), out);
+      i = end;
+    } else if (content[i] === "`") {
+      const end = findClosingBacktick(content, i + 1);
+      tokenize(content.slice(i + 1, end), out);
+      i = end;
+    }
+  }
+}
+
+// Read the bodies of pending heredocs, returning them and the index after the last delimiter
+function readHeredocs(
+  input: string,
+  start: number,
+  pending: PendingHeredoc[]
+): { next: number; bodies: Array<{ body: string; quoted: boolean }> } {
+  const bodies: Array<{ body: string; quoted: boolean }> = [];
+  let lines: string[] = [];
+  let i = start;
+  while (pending.length > 0 && i < input.length) {
+    const lineEnd = input.indexOf("\n", i);
+    const line = input.slice(i, lineEnd === -1 ? input.length : lineEnd);
+    i = lineEnd === -1 ? input.length : lineEnd + 1;
+    if (line.trim() === pending[0].delimiter) {
+      bodies.push({ body: lines.join("\n"), quoted: pending.shift()!.quoted });
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  // An unterminated heredoc runs to the end of the input
+  if (pending.length > 0) bodies.push({ body: lines.join("\n"), quoted: pending[0].quoted });
+  pending.length = 0;
+  return { next: i, bodies };
+}
+
+// Whether a command runs a script from stdin (a shell without -c or a script file)
+function runsStdin(cmd: RawCommand): boolean {
+  const normalized: SimpleCommand[] = [];
+  normalize({ words: cmd.words, redirects: [] }, normalized);
+  const words = normalized[0]?.words ?? [];
+  if (!SHELLS.has(words[0] ?? "")) return false;
+  const args = words.slice(1);
+  if (args.some((w) => /^-[a-z]*s[a-z]*$/.test(w))) return true;
+  return !args.some((w) => /^-[a-z]*c[a-z]*$/.test(w) || !w.startsWith("-"));
+}
+
+// Strip assignments, keywords and wrappers, then emit the command (and any nested ones)
+function normalize(cmd: RawCommand, out: SimpleCommand[]): void {
+  let words = [...cmd.words];
+
+  // Leading keywords and env assignments
+  while (words.length > 0 && (SHELL_KEYWORDS.has(words[0]) || ENV_ASSIGNMENT.test(words[0]))) {
+    words.shift();
+  }
+
+  // Wrapper commands run the command that follows their options
+  while (words.length > 0 && WRAPPER_COMMANDS.has(commandName(words[0]))) {
+    const wrapper = commandName(words[0]);
+    const withValue = WRAPPER_OPTIONS_WITH_VALUE[wrapper] || new Set<string>();
+    let i = 1;
+    while (i < words.length) {
+      const w = words[i];
+      if (withValue.has(w)) {
+        i += 2;
+      } else if (w.startsWith("-") || (wrapper === "env" && ENV_ASSIGNMENT.test(w))) {
+        i += 1;
+      } else {
+        break;
+      }
+    }
+    // "command -v name" only looks the name up
+    if (wrapper === "command" && words.slice(1, i).some((w) => /^-[a-zA-Z]*[vV]/.test(w))) break;
+    // timeout takes a duration before the command
+    if (wrapper === "timeout" && i < words.length) i++;
+    if (i >= words.length) break;
+    words = words.slice(i);
+  }
+
+  if (words.length === 0 && cmd.redirects.length === 0) return;
+
+  // Use the base name of the command ("/bin/rm" -> "rm")
+  if (words.length > 0) {
+    words[0] = commandName(words[0]);
+  }
+
+  out.push({ words, text: words.join(" "), redirects: cmd.redirects });
+
+  const name = words[0];
+
+  // sh -c "...", bash -c "..." and eval run their argument as a command line
+  if (SHELLS.has(name)) {
+    const flagIndex = words.findIndex((w, idx) => idx > 0 && /^-[a-z]*c[a-z]*$/.test(w));
+    if (flagIndex !== -1 && words[flagIndex + 1] !== undefined) {
+      for (const nested of parseCommand(words[flagIndex + 1])) out.push(nested);
+    }
+  } else if (name === "eval" && words.length > 1) {
+    for (const nested of parseCommand(words.slice(1).join(" "))) out.push(nested);
+  }
+
+  // find ... -exec cmd args ; (also -execdir, -ok, -okdir)
+  if (name === "find") {
+    for (let i = 1; i < words.length; i++) {
+      if (!["-exec", "-execdir", "-ok", "-okdir"].includes(words[i])) continue;
+      const end = words.findIndex((w, idx) => idx > i && (w === ";" || w === "+"));
+      const execWords = words.slice(i + 1, end === -1 ? words.length : end);
+      if (execWords.length > 0) {
+        normalize({ words: execWords, redirects: [] }, out);
+      }
+      i = end === -1 ? words.length : end;
+    }
+  }
+}
+
+function commandName(word: string): string {
+  const slash = word.lastIndexOf("/");
+  return slash === -1 ? word : word.slice(slash + 1);
+}
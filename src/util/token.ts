@@ -1,8 +1,22 @@
-import type { CoreMessage } from "ai";
+import { zodSchema, type CoreMessage, type CoreTool, type Schema } from "ai";
+import { z } from "zod";
 
 // Approximate characters per token (conservative estimate)
 const CHARS_PER_TOKEN = 4;
 
+// Images cost a roughly fixed amount (about a 1000x1000 image on most providers)
+const IMAGE_TOKENS = 1600;
+
+// Weight of the newest usage sample in the running correction factor
+const CALIBRATION_WEIGHT = 0.3;
+
+// Correction factors outside this range point at a bad sample
+const MIN_CALIBRATION = 0.5;
+const MAX_CALIBRATION = 3;
+
+// Ratio of real to estimated prompt tokens, learned per provider
+const calibrations = new Map<string, number>();
+
 /**
  * Estimate token count from a string
  */
@@ -34,6 +48,13 @@ export function estimateMessageTokens(message: CoreMessage): number {
         } else {
           tokens += estimateTokens(JSON.stringify(part.result));
         }
+      } else if (part.type === "reasoning") {
+        tokens += estimateTokens(part.text);
+      } else if (part.type === "image") {
+        tokens += IMAGE_TOKENS;
+      } else if (part.type === "file") {
+        // Non-image files (e.g. PDFs) are at least as costly as an image
+        tokens += IMAGE_TOKENS;
       }
     }
   }
@@ -48,6 +69,47 @@ export function estimateConversationTokens(messages: CoreMessage[]): number {
   return messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
 }
 
+/**
+ * Estimate tokens for tool definitions (name, description and JSON schema)
+ */
+export function estimateToolTokens(tools: Record<string, CoreTool>): number {
+  let tokens = 0;
+  for (const [name, tool] of Object.entries(tools)) {
+    const parameters = tool.parameters as z.ZodTypeAny | Schema;
+    const schema =
+      parameters instanceof z.ZodType ? zodSchema(parameters).jsonSchema : parameters.jsonSchema;
+    tokens += estimateTokens(name) + estimateTokens(tool.description ?? "");
+    tokens += estimateTokens(JSON.stringify(schema));
+  }
+  return tokens;
+}
+
+/**
+ * Correction factor for a provider's estimates (1 until usage was recorded)
+ */
+export function getTokenCalibration(provider: string): number {
+  return calibrations.get(provider) ?? 1;
+}
+
+/**
+ * Learn from the prompt tokens a provider reported for a request whose
+ * estimate is known. Samples are averaged so one odd request does not
+ * swing the factor.
+ */
+export function recordPromptUsage(provider: string, estimated: number, actual: number): void {
+  // Some providers report no usage (NaN or 0)
+  if (!Number.isFinite(actual) || actual <= 0 || estimated <= 0) return;
+
+  const ratio = actual / estimated;
+  if (ratio < MIN_CALIBRATION || ratio > MAX_CALIBRATION) return;
+
+  const previous = calibrations.get(provider);
+  calibrations.set(
+    provider,
+    previous === undefined ? ratio : previous + (ratio - previous) * CALIBRATION_WEIGHT
+  );
+}
+
 /**
  * Format token count for display
  */